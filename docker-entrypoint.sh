@@ -1,8 +1,17 @@
 #!/bin/bash
 set -e
 
-# Handle signals
-trap "kill 0" SIGINT SIGTERM EXIT
+# Handle signals: stop the worker first so it can drain and remove its ZAP
+# contexts, then stop ZAP
+shutdown() {
+  trap - SIGINT SIGTERM EXIT
+  if [ -n "$APP_PID" ]; then
+    kill -TERM "$APP_PID" 2>/dev/null || true
+    wait "$APP_PID" 2>/dev/null || true
+  fi
+  kill 0
+}
+trap shutdown SIGINT SIGTERM EXIT
 
 # ZAP Configuration
 # Memory limits
@@ -31,11 +40,7 @@ zap -daemon \
   ${JAVA_OPTS} &
 ZAP_PID=$!
 
-# Wait for ZAP to be ready
-echo "Waiting for ZAP to start..."
-sleep 10
-
-# Start the Node.js application
+# Start the Node.js application; it waits until the ZAP API answers
 echo "Starting Node.js application..."
 pnpm start &
 APP_PID=$!
@@ -1,19 +1,43 @@
 import { Worker } from "bullmq";
+import type { Job } from "bullmq";
 import { scan } from "./tasks/scan";
+import type { ScanJob, WebhookJob } from "./tasks/types";
 import { env } from "./env.mjs";
 import { logger } from "./logger";
+import { zapPool } from "./zap";
+import { ZapHealthMonitor } from "./services/zap/health";
+import { scanJobsActive, scanJobsTotal } from "./metrics";
+import { startServer } from "./server";
+import { interruptRunningScans } from "./tasks/cancellation";
+import { deliverWebhook } from "./tasks/webhooks";
+
+/** How long interrupted scans get to clean up before the process exits */
+const INTERRUPT_CLEANUP_TIMEOUT_MS = 30000;
 
 const redisConnection = {
   url: env.REDIS_URL,
   tls: {},
 };
 
+/**
+ * Runs a scan, counting it as active while it runs. Counted here because
+ * delayed jobs emit no worker event.
+ */
+async function processScan(job: Job<ScanJob>, token?: string) {
+  scanJobsActive.inc();
+  try {
+    await scan(job, token);
+  } finally {
+    scanJobsActive.dec();
+  }
+}
+
 // Configure worker for long-running security scans
-const scanWorker = new Worker(env.SCAN_QUEUE_NAME, scan, {
+const scanWorker = new Worker(env.SCAN_QUEUE_NAME, processScan, {
   connection: redisConnection,
   autorun: false,
-  // Reduce concurrency to prevent resource exhaustion
-  concurrency: 10,
+  // Each scan holds a ZAP lease, so more would only be delayed again
+  concurrency: zapPool.capacity,
   // Increase timeout for long-running scans (30 minutes)
   lockDuration: 1800000,
   // Automatically extend lock while job is active
@@ -43,6 +67,7 @@ scanWorker.on("active", (job) => {
 });
 
 scanWorker.on("completed", (job) => {
+  scanJobsTotal.inc({ status: "completed" });
   logger.info("Job completed successfully", {
     jobId: job.id,
     queue: env.SCAN_QUEUE_NAME,
@@ -50,6 +75,7 @@ scanWorker.on("completed", (job) => {
 });
 
 scanWorker.on("failed", (job, error) => {
+  scanJobsTotal.inc({ status: "failed" });
   logger.error("Job failed", {
     jobId: job?.id,
     error: error.message,
@@ -66,15 +92,118 @@ scanWorker.on("error", (error) => {
   });
 });
 
-// Start the worker
-scanWorker.run();
+// Deliveries need no engine, so they start right away rather than with scans
+const webhookWorker = new Worker<WebhookJob>(
+  env.WEBHOOK_QUEUE_NAME,
+  deliverWebhook,
+  {
+    connection: redisConnection,
+    concurrency: 5,
+  }
+);
 
-logger.info("Starting scan worker", {
-  queue: env.SCAN_QUEUE_NAME,
-  redis: env.REDIS_URL,
-  settings: {
-    concurrency: 2,
-    lockDuration: "30 minutes",
-    lockRenewTime: "15 seconds",
-  },
+webhookWorker.on("error", (error) => {
+  logger.error("Webhook worker error", {
+    error: error.message,
+    stack: error.stack,
+    queue: env.WEBHOOK_QUEUE_NAME,
+  });
+});
+
+// Only take scans while ZAP answers, resuming once it recovers
+const zapHealth = new ZapHealthMonitor(zapPool);
+
+// Answers probes while waiting for ZAP, reporting not ready until it is up
+const server = startServer(env.PORT, zapHealth);
+
+async function start() {
+  await zapHealth.waitUntilReady();
+
+  zapHealth.start({
+    onUnavailable: async () => {
+      logger.warn("Pausing scan worker until ZAP recovers", {
+        queue: env.SCAN_QUEUE_NAME,
+      });
+      // In-flight scans fail on their own with engine_unavailable
+      await scanWorker.pause(true);
+    },
+    onRecovered: () => {
+      logger.info("Resuming scan worker", { queue: env.SCAN_QUEUE_NAME });
+      scanWorker.resume();
+    },
+  });
+
+  // Start the worker
+  scanWorker.run();
+
+  logger.info("Starting scan worker", {
+    queue: env.SCAN_QUEUE_NAME,
+    redis: env.REDIS_URL,
+    settings: {
+      concurrency: zapPool.capacity,
+      lockDuration: "30 minutes",
+      lockRenewTime: "15 seconds",
+    },
+  });
+}
+
+/**
+ * Resolves true once the promise settles, or false after the timeout
+ */
+function settlesWithin(promise: Promise<unknown>, timeoutMs: number) {
+  return new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    promise.finally(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
+
+let shuttingDown = false;
+
+/**
+ * Stops taking jobs and lets running scans finish within the drain timeout.
+ * Scans still running after it are interrupted: they stop their engines,
+ * remove their ZAP contexts and go back to the queue for another worker.
+ */
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  logger.info("Shutting down scan worker", {
+    signal,
+    drainTimeoutMs: env.SHUTDOWN_DRAIN_TIMEOUT_MS,
+    queue: env.SCAN_QUEUE_NAME,
+  });
+  zapHealth.stop();
+
+  const closing = scanWorker.close();
+  const drained = await settlesWithin(closing, env.SHUTDOWN_DRAIN_TIMEOUT_MS);
+  if (!drained) {
+    const interrupted = interruptRunningScans();
+    logger.warn("Drain timeout reached, interrupting running scans", {
+      interrupted,
+    });
+    if (!(await settlesWithin(closing, INTERRUPT_CLEANUP_TIMEOUT_MS))) {
+      logger.error("Interrupted scans did not clean up in time");
+    }
+  }
+
+  // Deliveries still queued are sent once a worker is back
+  await webhookWorker.close();
+  server.close();
+  logger.info("Scan worker stopped", { drained });
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
+
+start().catch((error) => {
+  logger.error("Failed to start scan worker", {
+    error: error instanceof Error ? error.message : "Unknown error",
+    queue: env.SCAN_QUEUE_NAME,
+  });
+  process.exit(1);
 });
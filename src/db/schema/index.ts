@@ -1,2 +1,9 @@
 export * from "./scan";
 export * from "./scan-finding";
+export * from "./scan-checkpoint";
+export * from "./verified-domain";
+export * from "./suppression-rule";
+export * from "./severity-override";
+export * from "./scan-artifact";
+export * from "./report-template";
+export * from "./webhook";
@@ -0,0 +1,49 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  pgEnum,
+  timestamp,
+  text,
+  uuid,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// Report formats a project can customize
+export const reportTemplateFormatEnum = pgEnum("report_template_format", [
+  "html",
+  "markdown",
+]);
+
+// Template a project's reports are rendered with instead of the default.
+// Sections are placed with {{title}}, {{generatedAt}}, {{summary}},
+// {{chart}}, {{findings}} and {{fixed}} placeholders.
+export const reportTemplates = pgTable(
+  "report_templates",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    projectId: uuid().notNull(),
+    format: reportTemplateFormatEnum().notNull(),
+    template: text().notNull(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    uniqueIndex("report_templates_project_format_idx").on(
+      table.projectId,
+      table.format
+    ),
+  ]
+);
+
+// Types
+export type ReportTemplate = typeof reportTemplates.$inferSelect;
+export type NewReportTemplate = typeof reportTemplates.$inferInsert;
@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  pgEnum,
+  varchar,
+  timestamp,
+  text,
+  uuid,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { scans } from "./scan";
+
+// Report formats produced at the end of a scan
+export const artifactFormatEnum = pgEnum("artifact_format", [
+  "sarif",
+  "html",
+  "markdown",
+  "junit",
+]);
+
+// Reports generated from a scan's findings, one per format
+export const scanArtifacts = pgTable(
+  "scan_artifacts",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    scanId: uuid()
+      .references(() => scans.id, { onDelete: "cascade" })
+      .notNull(),
+    format: artifactFormatEnum().notNull(),
+    contentType: varchar({ length: 100 }).notNull(),
+    content: text().notNull(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    uniqueIndex("scan_artifacts_scan_format_idx").on(
+      table.scanId,
+      table.format
+    ),
+  ]
+);
+
+// Types
+export type ScanArtifact = typeof scanArtifacts.$inferSelect;
+export type NewScanArtifact = typeof scanArtifacts.$inferInsert;
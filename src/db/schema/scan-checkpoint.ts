@@ -0,0 +1,64 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  pgEnum,
+  text,
+  jsonb,
+  uuid,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { scans, scanPhaseEnum } from "./scan";
+
+// Checkpoint status enum
+export const checkpointStatusEnum = pgEnum("checkpoint_status", [
+  "running",
+  "completed",
+]);
+
+// Per-target, per-phase progress of a scan so retried jobs can resume
+export const scanCheckpoints = pgTable(
+  "scan_checkpoints",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+
+    // Scan reference
+    scanId: uuid()
+      .references(() => scans.id, { onDelete: "cascade" })
+      .notNull(),
+
+    // Target URL or origin the phase ran against ("*" for scan-wide phases)
+    target: text().notNull(),
+    phase: scanPhaseEnum().notNull(),
+    status: checkpointStatusEnum().notNull(),
+
+    // ZAP spider/active scan ID to reattach to
+    zapScanId: varchar({ length: 50 }),
+
+    // Phase output needed when the phase is skipped
+    data: jsonb(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    uniqueIndex("scan_checkpoints_scan_target_phase_idx").on(
+      table.scanId,
+      table.target,
+      table.phase
+    ),
+  ]
+);
+
+// Types
+export type ScanCheckpoint = typeof scanCheckpoints.$inferSelect;
+export type NewScanCheckpoint = typeof scanCheckpoints.$inferInsert;
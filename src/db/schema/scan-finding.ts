@@ -8,8 +8,13 @@ import {
   jsonb,
   uuid,
   integer,
+  real,
+  boolean,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { scans } from "./scan";
+import { suppressionRules } from "./suppression-rule";
 
 // Severity level enum
 export const severityLevelEnum = pgEnum("severity_level", [
@@ -36,58 +41,105 @@ export const riskLevelEnum = pgEnum("risk_level", [
   "info",
 ]);
 
-// Consolidated scan findings table schema
-export const scanFindings = pgTable("scan_findings", {
-  id: uuid()
-    .primaryKey()
-    .notNull()
-    .default(sql`gen_random_uuid()`),
-
-  // Scan reference
-  scanId: uuid()
-    .references(() => scans.id, { onDelete: "cascade" })
-    .notNull(),
-
-  // Finding Info fields
-  name: varchar({ length: 255 }).notNull(),
-  description: text().notNull(),
-  severity: severityLevelEnum().notNull(),
-  confidence: confidenceLevelEnum().notNull(),
-  solution: text(), // How to fix the vulnerability
-  reference: text(), // Reference URLs and documentation
-  tags: text().array(),
-
-  // Raw ZAP specific fields
-  riskLevel: riskLevelEnum().notNull(),
-  riskScore: integer(), // Numeric risk score from ZAP
-  pluginId: varchar({ length: 50 }).notNull(), // ZAP Plugin/Rule ID
-
-  // Classification fields
-  cveId: varchar({ length: 50 }),
-  cweIds: text().array(),
-  wasc: text().array(), // Web Application Security Consortium IDs
-
-  // Location information
-  url: varchar({ length: 2048 }).notNull(), // The affected URL
-  method: varchar({ length: 10 }), // HTTP method (GET, POST, etc.)
-  parameter: varchar({ length: 255 }), // Affected parameter
-  attack: text(), // The attack string used
-  evidence: text(), // Evidence of the vulnerability
-  otherInfo: text(), // Additional context
-
-  // Request/Response details (excluding response body to save space)
-  requestHeaders: jsonb(), // HTTP request headers
-  requestBody: text(), // HTTP request body
-  responseHeaders: jsonb(), // HTTP response headers
-
-  // Additional metadata
-  metadata: jsonb(),
-
-  // Timestamps
-  createdAt: timestamp({ withTimezone: true })
-    .notNull()
-    .default(sql`CURRENT_TIMESTAMP`),
-});
+// Scan engine enum to record which tool produced a finding
+export const scanEngineEnum = pgEnum("scan_engine", ["zap", "nuclei"]);
+
+// How a finding compares with the project's previous completed scan
+export const findingDiffStatusEnum = pgEnum("finding_diff_status", [
+  "new",
+  "recurring",
+  "fixed",
+]);
+
+// Consolidated scan findings table schema, one row per logical issue
+export const scanFindings = pgTable(
+  "scan_findings",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+
+    // Scan reference
+    scanId: uuid()
+      .references(() => scans.id, { onDelete: "cascade" })
+      .notNull(),
+
+    // Engine that produced the finding
+    engine: scanEngineEnum().notNull().default("zap"),
+
+    // Finding Info fields
+    name: varchar({ length: 255 }).notNull(),
+    description: text().notNull(),
+    severity: severityLevelEnum().notNull(),
+    confidence: confidenceLevelEnum().notNull(),
+    solution: text(), // How to fix the vulnerability
+    reference: text(), // Reference URLs and documentation
+    tags: text().array(),
+
+    // Raw ZAP specific fields
+    riskLevel: riskLevelEnum().notNull(),
+    riskScore: real(), // CVSS base score adjusted for confidence, 0-10
+    pluginId: varchar({ length: 50 }).notNull(), // ZAP Plugin/Rule ID or Nuclei template ID
+
+    // Scoring fields
+    cvssVector: varchar({ length: 100 }), // CVSS v3.1 vector the score derives from
+    cvssScore: real(), // CVSS v3.1 base score
+    scoringVersion: varchar({ length: 20 }), // Scoring model used, for reproducibility
+
+    // Classification fields
+    cveId: varchar({ length: 50 }),
+    cweIds: text().array(),
+    wasc: text().array(), // Web Application Security Consortium IDs
+
+    // Location information
+    url: varchar({ length: 2048 }).notNull(), // The affected URL
+    method: varchar({ length: 10 }), // HTTP method (GET, POST, etc.)
+    parameter: varchar({ length: 255 }), // Affected parameter
+    attack: text(), // The attack string used
+    evidence: text(), // Evidence of the vulnerability
+    otherInfo: text(), // Additional context
+
+    // Request/Response details (excluding response body to save space)
+    requestHeaders: jsonb(), // HTTP request headers
+    requestBody: text(), // HTTP request body
+    responseHeaders: jsonb(), // HTTP response headers
+
+    // Additional metadata
+    metadata: jsonb(),
+
+    // Identifies the logical issue, stable across scans
+    fingerprint: varchar({ length: 64 }).notNull(),
+
+    // Every place the issue was seen; the location fields hold one of them
+    instances: jsonb().notNull().default([]),
+    instanceCount: integer().notNull().default(1),
+
+    // Scan-to-scan diff; fixed rows are copies of issues the previous scan
+    // had and this one no longer has
+    diffStatus: findingDiffStatusEnum(),
+    firstSeenAt: timestamp({ withTimezone: true }),
+    lastSeenAt: timestamp({ withTimezone: true }),
+
+    // Matched a suppression rule: kept for audit but left out of stats
+    suppressed: boolean().notNull().default(false),
+    suppressionRuleId: uuid().references(() => suppressionRules.id, {
+      onDelete: "set null",
+    }),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    uniqueIndex("scan_findings_scan_fingerprint_idx").on(
+      table.scanId,
+      table.fingerprint
+    ),
+    index("scan_findings_fingerprint_idx").on(table.fingerprint),
+  ]
+);
 
 // Types
 export type ScanFinding = typeof scanFindings.$inferSelect;
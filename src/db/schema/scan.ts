@@ -3,9 +3,12 @@ import {
   pgTable,
   timestamp,
   integer,
+  real,
   pgEnum,
   text,
   uuid,
+  jsonb,
+  varchar,
 } from "drizzle-orm/pg-core";
 import { ScanFinding } from "./scan-finding";
 
@@ -15,8 +18,31 @@ export const scanStatusEnum = pgEnum("scan_status", [
   "in_progress",
   "completed",
   "failed",
+  "cancelled",
+  "interrupted",
 ]);
 
+// Scan profile enum
+export const scanProfileEnum = pgEnum("scan_profile", [
+  "quick",
+  "standard",
+  "deep",
+  "passive",
+]);
+
+// Scan phase enum for progress reporting
+export const scanPhaseEnum = pgEnum("scan_phase", [
+  "crawl",
+  "spider",
+  "ajax_spider",
+  "active_scan",
+  "nuclei",
+  "ingest",
+]);
+
+// Verdict of a scan's gate policy
+export const gateVerdictEnum = pgEnum("gate_verdict", ["passed", "failed"]);
+
 // Scan table schema
 export const scans = pgTable("scans", {
   id: uuid()
@@ -32,7 +58,13 @@ export const scans = pgTable("scans", {
     .default(sql`CURRENT_TIMESTAMP`),
   completedAt: timestamp({ withTimezone: true }),
 
+  // Progress
+  currentPhase: scanPhaseEnum(),
+  progressPercent: integer().notNull().default(0),
+  currentTargetUrl: text(),
+
   // Scan configuration
+  profile: scanProfileEnum().notNull().default("standard"),
   rateLimit: integer().notNull().default(150),
   timeout: integer().notNull().default(5),
 
@@ -43,9 +75,24 @@ export const scans = pgTable("scans", {
   lowCount: integer().notNull().default(0),
   infoCount: integer().notNull().default(0),
   totalFindings: integer().notNull().default(0),
+  suppressedFindings: integer().notNull().default(0),
+  avgRiskScore: real().notNull().default(0),
+  maxRiskScore: real().notNull().default(0),
+  discoverySources: jsonb().$type<Record<string, number>>(), // URLs seeded per crawl source
+
+  // Diff against the project's previous completed scan
+  previousScanId: uuid(),
+  newFindings: integer().notNull().default(0),
+  recurringFindings: integer().notNull().default(0),
+  fixedFindings: integer().notNull().default(0),
+
+  // CI gate; null when the scan had no gate policy
+  gateVerdict: gateVerdictEnum(),
+  gateReasons: jsonb().$type<string[]>(), // Why the gate failed
 
   // Error handling
   errorMessage: text(),
+  errorCode: varchar({ length: 50 }), // Machine-readable reason a scan failed
   warnings: text(),
 
   // Relathionships
@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  text,
+  uuid,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { severityLevelEnum } from "./scan-finding";
+
+// Severity a project assigns to every finding of a ZAP plugin or Nuclei
+// template, replacing the scored severity at ingest
+export const severityOverrides = pgTable(
+  "severity_overrides",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    projectId: uuid().notNull(),
+    pluginId: varchar({ length: 50 }).notNull(), // ZAP Plugin/Rule ID or Nuclei template ID
+    severity: severityLevelEnum().notNull(),
+    reason: text(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [
+    uniqueIndex("severity_overrides_project_plugin_idx").on(
+      table.projectId,
+      table.pluginId
+    ),
+  ]
+);
+
+// Types
+export type SeverityOverride = typeof severityOverrides.$inferSelect;
+export type NewSeverityOverride = typeof severityOverrides.$inferInsert;
@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  timestamp,
+  pgEnum,
+  text,
+  uuid,
+  index,
+} from "drizzle-orm/pg-core";
+
+// Why findings matching a rule are suppressed
+export const suppressionKindEnum = pgEnum("suppression_kind", [
+  "false_positive",
+  "accepted_risk",
+]);
+
+// Triage decisions applied to a project's findings at ingest. Every criterion
+// that is set must match; a rule without criteria matches nothing.
+export const suppressionRules = pgTable(
+  "suppression_rules",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    projectId: uuid().notNull(),
+    kind: suppressionKindEnum().notNull().default("false_positive"),
+
+    // Match criteria
+    pluginId: varchar({ length: 50 }), // ZAP Plugin/Rule ID or Nuclei template ID
+    urlRegex: text(), // Must match every URL the finding was seen at
+    parameter: varchar({ length: 255 }),
+    cweId: varchar({ length: 20 }),
+
+    // Audit
+    reason: text().notNull(),
+    owner: varchar({ length: 255 }).notNull(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    expiresAt: timestamp({ withTimezone: true }), // Stops applying afterwards
+  },
+  (table) => [index("suppression_rules_project_idx").on(table.projectId)]
+);
+
+// Types
+export type SuppressionRule = typeof suppressionRules.$inferSelect;
+export type NewSuppressionRule = typeof suppressionRules.$inferInsert;
@@ -0,0 +1,45 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  timestamp,
+  pgEnum,
+  text,
+  uuid,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// Domain verification method enum
+export const domainVerificationMethodEnum = pgEnum(
+  "domain_verification_method",
+  ["dns_txt", "well_known"]
+);
+
+// Hosts a project has proven it controls, cached until they expire
+export const verifiedDomains = pgTable(
+  "verified_domains",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    projectId: uuid().notNull(),
+    domain: text().notNull(),
+    method: domainVerificationMethodEnum().notNull(),
+
+    // Timestamps
+    verifiedAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    expiresAt: timestamp({ withTimezone: true }).notNull(),
+  },
+  (table) => [
+    uniqueIndex("verified_domains_project_domain_idx").on(
+      table.projectId,
+      table.domain
+    ),
+  ]
+);
+
+// Types
+export type VerifiedDomain = typeof verifiedDomains.$inferSelect;
+export type NewVerifiedDomain = typeof verifiedDomains.$inferInsert;
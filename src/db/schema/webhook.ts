@@ -0,0 +1,87 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  pgEnum,
+  varchar,
+  timestamp,
+  text,
+  uuid,
+  jsonb,
+  integer,
+  boolean,
+  index,
+} from "drizzle-orm/pg-core";
+
+// Scan lifecycle events a project can subscribe to
+export const webhookEventEnum = pgEnum("webhook_event", [
+  "scan.started",
+  "scan.phase_changed",
+  "scan.completed",
+  "scan.failed",
+  "finding.new_critical",
+]);
+
+// Delivery status enum
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+// Endpoint a project receives signed event notifications on
+export const webhookSubscriptions = pgTable(
+  "webhook_subscriptions",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    projectId: uuid().notNull(),
+    url: varchar({ length: 2048 }).notNull(),
+    secret: text().notNull(), // Key of the HMAC-SHA256 signatures
+    events: webhookEventEnum().array().notNull(),
+    active: boolean().notNull().default(true),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [index("webhook_subscriptions_project_idx").on(table.projectId)]
+);
+
+// Log of every event sent to a subscription and how its attempts went
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid()
+      .primaryKey()
+      .notNull()
+      .default(sql`gen_random_uuid()`),
+    subscriptionId: uuid()
+      .references(() => webhookSubscriptions.id, { onDelete: "cascade" })
+      .notNull(),
+    event: webhookEventEnum().notNull(),
+    payload: jsonb().notNull(),
+    status: webhookDeliveryStatusEnum().notNull().default("pending"),
+    attempts: integer().notNull().default(0),
+    statusCode: integer(), // Response status of the last attempt
+    errorMessage: text(),
+
+    // Timestamps
+    createdAt: timestamp({ withTimezone: true })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    lastAttemptAt: timestamp({ withTimezone: true }),
+    deliveredAt: timestamp({ withTimezone: true }),
+  },
+  (table) => [
+    index("webhook_deliveries_subscription_idx").on(table.subscriptionId),
+  ]
+);
+
+// Types
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
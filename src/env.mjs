@@ -11,6 +11,45 @@ export const env = createEnv({
     REDIS_URL: z.string().url(),
     SCAN_QUEUE_NAME: z.string(),
     SCAN_NOTIFICATION_QUEUE_NAME: z.string(),
+    // Queue webhook deliveries are retried through
+    WEBHOOK_QUEUE_NAME: z.string().default("scan-webhooks"),
+    // Comma-separated hostnames, IPs and CIDRs internal deployments may scan
+    SCAN_TARGET_ALLOWLIST: z.string().optional(),
+    // Secret the per-project domain verification tokens are derived from
+    DOMAIN_VERIFICATION_SECRET: z.string().min(16),
+    // Requests per second all scans together may send to one host
+    HOST_RATE_LIMIT: z.coerce.number().int().positive().default(150),
+    ZAP_API_URL: z.string().url().default("http://127.0.0.1:8080"),
+    ZAP_API_KEY: z.string().optional(),
+    // JSON array of { proxyUrl, apiKey } pooled instead of ZAP_API_URL
+    ZAP_INSTANCES: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value) return undefined;
+        try {
+          return JSON.parse(value);
+        } catch {
+          ctx.addIssue({ code: "custom", message: "Must be a JSON array" });
+          return z.NEVER;
+        }
+      })
+      .pipe(
+        z
+          .array(
+            z.object({
+              proxyUrl: z.string().url(),
+              apiKey: z.string().optional(),
+            })
+          )
+          .min(1)
+          .optional()
+      ),
+    ZAP_MAX_SCANS_PER_INSTANCE: z.coerce.number().int().positive().default(2),
+    // Port of the health, readiness and metrics endpoints
+    PORT: z.coerce.number().int().positive().default(3000),
+    // How long running scans may finish on shutdown before being interrupted
+    SHUTDOWN_DRAIN_TIMEOUT_MS: z.coerce.number().int().min(0).default(30000),
   },
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
@@ -18,6 +57,16 @@ export const env = createEnv({
     REDIS_URL: process.env.REDIS_URL,
     SCAN_QUEUE_NAME: process.env.SCAN_QUEUE_NAME,
     SCAN_NOTIFICATION_QUEUE_NAME: process.env.SCAN_NOTIFICATION_QUEUE_NAME,
+    WEBHOOK_QUEUE_NAME: process.env.WEBHOOK_QUEUE_NAME,
+    SCAN_TARGET_ALLOWLIST: process.env.SCAN_TARGET_ALLOWLIST,
+    DOMAIN_VERIFICATION_SECRET: process.env.DOMAIN_VERIFICATION_SECRET,
+    HOST_RATE_LIMIT: process.env.HOST_RATE_LIMIT,
+    ZAP_API_URL: process.env.ZAP_API_URL,
+    ZAP_API_KEY: process.env.ZAP_API_KEY,
+    ZAP_INSTANCES: process.env.ZAP_INSTANCES,
+    ZAP_MAX_SCANS_PER_INSTANCE: process.env.ZAP_MAX_SCANS_PER_INSTANCE,
+    PORT: process.env.PORT,
+    SHUTDOWN_DRAIN_TIMEOUT_MS: process.env.SHUTDOWN_DRAIN_TIMEOUT_MS,
   },
   skipValidation: !!process.env.SKIP_ENV_VALIDATION,
   emptyStringAsUndefined: true,
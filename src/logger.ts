@@ -1,8 +1,38 @@
 import winston from "winston";
 
+const REDACTED_KEYS = /^(password|headerValue|authorization|cookie|apiKey)$/i;
+
+/**
+ * Returns a copy of a log value with credential fields masked
+ */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        REDACTED_KEYS.test(key) ? "[REDACTED]" : redact(entry),
+      ])
+    );
+  }
+
+  return value;
+}
+
+// Credentials from scan requests must never reach the logs
+const redactCredentials = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    info[key] = REDACTED_KEYS.test(key) ? "[REDACTED]" : redact(info[key]);
+  }
+  return info;
+});
+
 export const logger = winston.createLogger({
   level: "debug",
-  format: winston.format.json(),
+  format: winston.format.combine(redactCredentials(), winston.format.json()),
 });
 
 //
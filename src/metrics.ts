@@ -0,0 +1,39 @@
+import { MetricsRegistry } from "@/services/metrics/service";
+
+export const metrics = new MetricsRegistry();
+
+export const scanJobsActive = metrics.gauge({
+  name: "scan_jobs_active",
+  help: "Scan jobs this worker is processing",
+});
+
+export const scanJobsTotal = metrics.counter({
+  name: "scan_jobs_total",
+  help: "Scan jobs finished by this worker",
+  labelNames: ["status"],
+});
+
+export const scanPhaseDuration = metrics.histogram({
+  name: "scan_phase_duration_seconds",
+  help: "Time taken by each completed scan phase",
+  labelNames: ["phase"],
+  buckets: [5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600, 7200],
+});
+
+export const scanFindingsTotal = metrics.counter({
+  name: "scan_findings_total",
+  help: "Findings stored per severity",
+  labelNames: ["severity"],
+});
+
+export const zapApiDuration = metrics.histogram({
+  name: "zap_api_request_duration_seconds",
+  help: "Latency of ZAP API calls",
+  labelNames: ["endpoint", "outcome"],
+});
+
+export const subprocessExitsTotal = metrics.counter({
+  name: "subprocess_exits_total",
+  help: "Exit codes of scanner subprocesses",
+  labelNames: ["binary", "exit_code"],
+});
@@ -0,0 +1,7 @@
+import { Redis } from "ioredis";
+
+import { env } from "@/env.mjs";
+
+export const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
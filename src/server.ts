@@ -0,0 +1,89 @@
+import express from "express";
+import type { Server } from "http";
+import { sql } from "drizzle-orm";
+import { db } from "@/db/db";
+import { redis } from "@/redis";
+import { logger } from "@/logger";
+import { metrics } from "@/metrics";
+import { zapPool } from "@/zap";
+import type { ZapHealthMonitor } from "@/services/zap/health";
+import { checkScannerBinaries } from "@/tasks/scan-operations";
+
+/** How long a single readiness check may take */
+const CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * Runs a readiness check, treating errors and timeouts as failures
+ */
+async function runCheck(
+  name: string,
+  check: () => Promise<boolean>
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      check(),
+      new Promise<boolean>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+  } catch (error) {
+    logger.warn("Readiness check failed", {
+      check: name,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Starts the HTTP server the orchestrator probes and Prometheus scrapes
+ * @param port - Port to listen on
+ * @param zapHealth - Monitor telling whether ZAP is usable
+ */
+export function startServer(port: number, zapHealth: ZapHealthMonitor): Server {
+  const app = express();
+
+  // Liveness: the process is up and its event loop responds
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  // Readiness: every dependency a scan needs is reachable
+  app.get("/readyz", async (_req, res) => {
+    const [redisUp, postgresUp, binaries] = await Promise.all([
+      runCheck("redis", async () => (await redis.ping()) === "PONG"),
+      runCheck("postgres", async () => {
+        await db.execute(sql`select 1`);
+        return true;
+      }),
+      checkScannerBinaries(),
+    ]);
+    const checks = {
+      redis: redisUp,
+      postgres: postgresUp,
+      zap: zapHealth.isAvailable(),
+      ...binaries,
+    };
+    const ready = Object.values(checks).every(Boolean);
+
+    res.status(ready ? 200 : 503).json({
+      status: ready ? "ready" : "not_ready",
+      checks,
+      zapInstances: await zapPool.getStatus().catch(() => null),
+    });
+  });
+
+  app.get("/metrics", (_req, res) => {
+    res.type("text/plain; version=0.0.4").send(metrics.render());
+  });
+
+  return app.listen(port, () => {
+    logger.info("HTTP server listening", { port });
+  });
+}
@@ -0,0 +1,6 @@
+export class ApiDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiDefinitionError";
+  }
+}
@@ -0,0 +1,186 @@
+import { ApiDefinitionError } from "./exceptions";
+import type { ApiDefinitionResult, ApiRequest } from "./types";
+import { asArray, asObject, asObjects, asString } from "./utils";
+import type { JsonObject } from "./utils";
+
+/** Limits how deep nested input objects are expanded */
+const MAX_INPUT_DEPTH = 3;
+
+/**
+ * Introspection query for the parts of the schema needed to build operations
+ */
+export const INTROSPECTION_QUERY = `
+query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    types {
+      kind
+      name
+      fields {
+        name
+        args { name type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+      inputFields { name type { ...TypeRef } }
+      enumValues { name }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name } } }
+}
+`;
+
+/**
+ * Strips NON_NULL and LIST wrappers from a type reference
+ */
+function namedType(typeRef: unknown): JsonObject | undefined {
+  let current = asObject(typeRef);
+  while (current?.ofType) current = asObject(current.ofType);
+  return current;
+}
+
+/**
+ * Looks up the introspected type a type reference names
+ */
+function lookupType(
+  typeRef: JsonObject | undefined,
+  types: Map<string, JsonObject>
+): JsonObject | undefined {
+  const name = asString(typeRef?.name);
+  return name ? types.get(name) : undefined;
+}
+
+/**
+ * Builds a GraphQL literal for an argument of the given type
+ */
+function exampleLiteral(
+  typeRefNode: unknown,
+  types: Map<string, JsonObject>,
+  depth = 0
+): string {
+  const typeRef = asObject(typeRefNode);
+  if (typeRef?.kind === "NON_NULL") {
+    return exampleLiteral(typeRef.ofType, types, depth);
+  }
+  if (typeRef?.kind === "LIST") {
+    return `[${exampleLiteral(typeRef.ofType, types, depth)}]`;
+  }
+
+  const type = lookupType(typeRef, types);
+  switch (type?.kind) {
+    case "ENUM":
+      return asString(asObjects(type.enumValues)[0]?.name) ?? "null";
+    case "INPUT_OBJECT": {
+      if (depth >= MAX_INPUT_DEPTH) return "{}";
+      const fields = asObjects(type.inputFields).map(
+        (field) =>
+          `${field.name}: ${exampleLiteral(field.type, types, depth + 1)}`
+      );
+      return `{${fields.join(", ")}}`;
+    }
+  }
+
+  switch (typeRef?.name) {
+    case "Int":
+      return "1";
+    case "Float":
+      return "1.0";
+    case "Boolean":
+      return "true";
+    case "ID":
+      return '"1"';
+    default:
+      return '"example"';
+  }
+}
+
+/**
+ * Builds the selection set for a field's return type
+ */
+function selectionSet(
+  typeRef: unknown,
+  types: Map<string, JsonObject>
+): string {
+  const type = lookupType(namedType(typeRef), types);
+
+  if (type?.kind === "UNION") return " { __typename }";
+  if (type?.kind !== "OBJECT" && type?.kind !== "INTERFACE") return "";
+
+  const leafFields = asObjects(type.fields)
+    .filter((field) => {
+      const kind = lookupType(namedType(field.type), types)?.kind;
+      return (
+        (kind === "SCALAR" || kind === "ENUM") &&
+        asArray(field.args).length === 0
+      );
+    })
+    .map((field) => field.name);
+
+  return ` { ${leafFields.length ? leafFields.join(" ") : "__typename"} }`;
+}
+
+/**
+ * Expands an introspected GraphQL schema into one request per query and
+ * mutation field
+ * @param introspected - The `__schema` object returned by introspection
+ * @param endpointUrl - URL of the GraphQL endpoint
+ * @throws {ApiDefinitionError} If the introspection result has no schema
+ */
+export function expandGraphqlSchema(
+  introspected: unknown,
+  endpointUrl: string
+): ApiDefinitionResult {
+  const schema = asObject(introspected);
+  if (!schema || !Array.isArray(schema.types)) {
+    throw new ApiDefinitionError("Introspection returned no schema");
+  }
+
+  const types = new Map<string, JsonObject>(
+    asObjects(schema.types).map((type) => [String(type.name), type])
+  );
+  const requests: ApiRequest[] = [];
+  const warnings: string[] = [];
+
+  const roots = [
+    ["query", asString(asObject(schema.queryType)?.name)],
+    ["mutation", asString(asObject(schema.mutationType)?.name)],
+  ] as const;
+
+  for (const [operation, typeName] of roots) {
+    const rootType = typeName ? types.get(typeName) : undefined;
+    if (!rootType) continue;
+
+    for (const field of asObjects(rootType.fields)) {
+      try {
+        const args = asObjects(field.args).map(
+          (arg) => `${arg.name}: ${exampleLiteral(arg.type, types)}`
+        );
+        const argList = args.length ? `(${args.join(", ")})` : "";
+        const query = `${operation} { ${field.name}${argList}${selectionSet(
+          field.type,
+          types
+        )} }`;
+
+        requests.push({
+          method: "POST",
+          url: endpointUrl,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query }),
+        });
+      } catch (error) {
+        warnings.push(
+          `GraphQL ${operation} ${field.name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  return { requests, warnings };
+}
@@ -0,0 +1,305 @@
+import { ApiDefinitionError } from "./exceptions";
+import type { ApiDefinitionResult, ApiRequest } from "./types";
+import { asArray, asObject, asObjects, asString, isJsonObject } from "./utils";
+import type { JsonObject } from "./utils";
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+] as const;
+
+/** Guards against self-referencing schemas */
+const MAX_SCHEMA_DEPTH = 6;
+
+/**
+ * Resolves a local JSON reference such as `#/components/schemas/User`
+ */
+function resolveRef(document: JsonObject, ref: string): unknown {
+  if (!ref.startsWith("#/")) return undefined;
+
+  return ref
+    .slice(2)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>((node, segment) => {
+      if (Array.isArray(node)) return node[Number(segment)];
+      return asObject(node)?.[segment];
+    }, document);
+}
+
+/**
+ * Follows a `$ref` if the node is a reference
+ */
+function deref(document: JsonObject, node: unknown): unknown {
+  const ref = asString(asObject(node)?.$ref);
+  return ref ? resolveRef(document, ref) : node;
+}
+
+/**
+ * Builds an example string for a string schema based on its format
+ */
+function exampleString(format: string | undefined): string {
+  switch (format) {
+    case "date":
+      return "2024-01-01";
+    case "date-time":
+      return "2024-01-01T00:00:00Z";
+    case "email":
+      return "user@example.com";
+    case "uuid":
+      return "00000000-0000-4000-8000-000000000000";
+    case "uri":
+    case "url":
+      return "https://example.com";
+    case "ipv4":
+      return "192.0.2.1";
+    default:
+      return "example";
+  }
+}
+
+/**
+ * Generates an example value that satisfies a JSON schema
+ */
+export function exampleFromSchema(
+  schemaNode: unknown,
+  document: JsonObject,
+  depth = 0
+): unknown {
+  const schema = asObject(schemaNode);
+  if (!schema || depth > MAX_SCHEMA_DEPTH) return null;
+
+  const ref = asString(schema.$ref);
+  if (ref) {
+    return exampleFromSchema(resolveRef(document, ref), document, depth + 1);
+  }
+
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map((part: unknown) =>
+        exampleFromSchema(part, document, depth + 1)
+      )
+    );
+  }
+
+  const variants = asArray(schema.oneOf ?? schema.anyOf);
+  if (variants.length > 0) {
+    return exampleFromSchema(variants[0], document, depth + 1);
+  }
+
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return schema.minimum ?? 1;
+    case "boolean":
+      return true;
+    case "array":
+      return [exampleFromSchema(schema.items, document, depth + 1)];
+    case "string":
+      return exampleString(asString(schema.format));
+  }
+
+  if (schema.type === "object" || schema.properties) {
+    return Object.fromEntries(
+      Object.entries(asObject(schema.properties) ?? {}).map(
+        ([name, property]) => [
+          name,
+          exampleFromSchema(property, document, depth + 1),
+        ]
+      )
+    );
+  }
+
+  return "example";
+}
+
+/**
+ * Serializes an example value for use in a URL, header or form field
+ */
+function stringifyExample(value: unknown): string {
+  if (Array.isArray(value)) return value.map(stringifyExample).join(",");
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return String(value ?? "");
+}
+
+/**
+ * Determines the base URL requests are sent to
+ */
+function getBaseUrl(document: JsonObject, fallbackBaseUrl: string): string {
+  const fallback = new URL(fallbackBaseUrl);
+
+  // OpenAPI 2 (Swagger)
+  if (document.swagger) {
+    const scheme =
+      asString(asArray(document.schemes)[0]) ?? fallback.protocol.slice(0, -1);
+    const host = asString(document.host) ?? fallback.host;
+    return `${scheme}://${host}${asString(document.basePath) ?? ""}`;
+  }
+
+  // OpenAPI 3 servers may be relative and use variables
+  const server = asObjects(document.servers)[0];
+  const url = asString(server?.url);
+  if (!server || !url) return fallback.origin;
+
+  const serverUrl = Object.entries(asObject(server.variables) ?? {}).reduce(
+    (resolved, [name, variable]) =>
+      resolved.replace(`{${name}}`, String(asObject(variable)?.default ?? "")),
+    url
+  );
+  return new URL(serverUrl, fallbackBaseUrl).toString();
+}
+
+/**
+ * Expands a single operation into a concrete request
+ */
+function expandOperation(
+  document: JsonObject,
+  baseUrl: string,
+  path: string,
+  method: string,
+  operation: JsonObject,
+  sharedParameters: unknown[]
+): ApiRequest {
+  let resolvedPath = path;
+  const query = new URLSearchParams();
+  const form = new URLSearchParams();
+  const headers: Record<string, string> = {};
+  let body: string | undefined;
+
+  const parameters = [...sharedParameters, ...asArray(operation.parameters)]
+    .map((parameter) => deref(document, parameter))
+    .filter(isJsonObject);
+
+  for (const parameter of parameters) {
+    const name = String(parameter.name);
+    // OpenAPI 3 nests the schema, OpenAPI 2 puts it on the parameter itself
+    const example =
+      parameter.example ??
+      exampleFromSchema(parameter.schema ?? parameter, document);
+
+    switch (parameter.in) {
+      case "path":
+        resolvedPath = resolvedPath.replace(
+          `{${name}}`,
+          encodeURIComponent(stringifyExample(example))
+        );
+        break;
+      case "query":
+        query.append(name, stringifyExample(example));
+        break;
+      case "header":
+        headers[name] = stringifyExample(example);
+        break;
+      case "formData":
+        form.append(name, stringifyExample(example));
+        break;
+      case "body":
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify(exampleFromSchema(parameter.schema, document));
+        break;
+    }
+  }
+
+  if (form.toString()) {
+    headers["Content-Type"] = "application/x-www-form-urlencoded";
+    body = form.toString();
+  }
+
+  const requestBody = asObject(deref(document, operation.requestBody));
+  const content = asObject(requestBody?.content) ?? {};
+  const mediaType =
+    Object.keys(content).find((type) => type.includes("json")) ??
+    Object.keys(content)[0];
+
+  if (mediaType) {
+    const media = asObject(content[mediaType]) ?? {};
+    const example = media.example ?? exampleFromSchema(media.schema, document);
+    headers["Content-Type"] = mediaType;
+
+    if (mediaType === "application/x-www-form-urlencoded") {
+      body = new URLSearchParams(
+        Object.entries(asObject(example) ?? {}).map(([name, value]) => [
+          name,
+          stringifyExample(value),
+        ])
+      ).toString();
+    } else {
+      body =
+        typeof example === "string" ? example : JSON.stringify(example ?? {});
+    }
+  }
+
+  const queryString = query.toString();
+  return {
+    method: method.toUpperCase(),
+    url: `${baseUrl.replace(/\/$/, "")}${resolvedPath}${
+      queryString ? `?${queryString}` : ""
+    }`,
+    headers,
+    body,
+  };
+}
+
+/**
+ * Expands an OpenAPI 2 or 3 document into concrete requests with example
+ * parameters
+ * @param parsed - Parsed OpenAPI document
+ * @param fallbackBaseUrl - URL used when the document declares no server
+ * @throws {ApiDefinitionError} If the document is not an OpenAPI definition
+ */
+export function expandOpenApi(
+  parsed: unknown,
+  fallbackBaseUrl: string
+): ApiDefinitionResult {
+  const document = asObject(parsed);
+  const paths = asObject(document?.paths);
+  if (!document || !paths || !(document.swagger || document.openapi)) {
+    throw new ApiDefinitionError("Document is not an OpenAPI definition");
+  }
+
+  const baseUrl = getBaseUrl(document, fallbackBaseUrl);
+  const requests: ApiRequest[] = [];
+  const warnings: string[] = [];
+
+  for (const [path, rawPathItem] of Object.entries(paths)) {
+    const pathItem = asObject(deref(document, rawPathItem)) ?? {};
+
+    for (const method of HTTP_METHODS) {
+      const operation = asObject(pathItem[method]);
+      if (!operation) continue;
+
+      try {
+        requests.push(
+          expandOperation(
+            document,
+            baseUrl,
+            path,
+            method,
+            operation,
+            asArray(pathItem.parameters)
+          )
+        );
+      } catch (error) {
+        warnings.push(
+          `OpenAPI ${method.toUpperCase()} ${path}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  return { requests, warnings };
+}
@@ -0,0 +1,159 @@
+import { ApiDefinitionError } from "./exceptions";
+import type { ApiDefinitionResult, ApiRequest } from "./types";
+import { asObject, asObjects, asString } from "./utils";
+import type { JsonObject } from "./utils";
+
+/**
+ * Builds a raw URL from Postman's structured URL object
+ */
+function buildUrl(rawUrl: unknown): string {
+  if (typeof rawUrl === "string") return rawUrl;
+  const url = asObject(rawUrl) ?? {};
+  const raw = asString(url.raw);
+  if (raw) return raw;
+
+  const host = [url.host ?? []].flat().join(".");
+  const path = [url.path ?? []].flat().join("/");
+  const query = asObjects(url.query)
+    .filter((param) => !param.disabled)
+    .map((param) => `${param.key}=${param.value ?? ""}`)
+    .join("&");
+
+  return `${url.protocol ?? "https"}://${host}/${path}${
+    query ? `?${query}` : ""
+  }`;
+}
+
+/**
+ * Converts a single Postman request into a concrete request
+ */
+function expandRequest(
+  rawRequest: unknown,
+  substitute: (text: string) => string
+): ApiRequest {
+  const request: JsonObject =
+    typeof rawRequest === "string"
+      ? { method: "GET", url: rawRequest }
+      : asObject(rawRequest) ?? {};
+
+  const url = substitute(buildUrl(request.url));
+  const unresolved = url.match(/{{\s*([^}]+?)\s*}}/);
+  if (unresolved) {
+    throw new ApiDefinitionError(`Unresolved variable ${unresolved[1]}`);
+  }
+  // Throws on URLs that remain invalid after substitution
+  new URL(url);
+
+  const headers: Record<string, string> = {};
+  for (const header of asObjects(request.header)) {
+    if (header.disabled || !header.key) continue;
+    headers[String(header.key)] = substitute(String(header.value ?? ""));
+  }
+
+  const setContentType = (contentType: string) => {
+    if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+      headers["Content-Type"] = contentType;
+    }
+  };
+
+  let body: string | undefined;
+  const requestBody = asObject(request.body) ?? {};
+  const mode = requestBody.mode;
+
+  switch (mode) {
+    case "raw":
+      body = substitute(String(requestBody.raw ?? ""));
+      if (asObject(asObject(requestBody.options)?.raw)?.language === "json") {
+        setContentType("application/json");
+      }
+      break;
+    case "urlencoded":
+    case "formdata": {
+      // Multipart file fields cannot be replayed, so form data is sent urlencoded
+      const fields = asObjects(requestBody[mode]).filter(
+        (field) => !field.disabled && field.type !== "file"
+      );
+      body = new URLSearchParams(
+        fields.map((field) => [
+          String(field.key),
+          substitute(String(field.value ?? "")),
+        ])
+      ).toString();
+      setContentType("application/x-www-form-urlencoded");
+      break;
+    }
+    case "graphql": {
+      const graphql = asObject(requestBody.graphql);
+      const variables = asString(graphql?.variables);
+      body = JSON.stringify({
+        query: graphql?.query ?? "",
+        variables: variables ? JSON.parse(substitute(variables)) : undefined,
+      });
+      setContentType("application/json");
+      break;
+    }
+  }
+
+  return {
+    method: String(request.method ?? "GET").toUpperCase(),
+    url,
+    headers,
+    body,
+  };
+}
+
+/**
+ * Expands a Postman v2.x collection into concrete requests, substituting
+ * collection variables
+ * @param document - Parsed Postman collection
+ * @throws {ApiDefinitionError} If the document is not a Postman collection
+ */
+export function expandPostmanCollection(
+  document: unknown
+): ApiDefinitionResult {
+  const collection = asObject(document);
+  if (!collection || !Array.isArray(collection.item)) {
+    throw new ApiDefinitionError("Document is not a Postman collection");
+  }
+
+  const variables: Record<string, string> = Object.fromEntries(
+    asObjects(collection.variable).map((variable) => [
+      String(variable.key),
+      String(variable.value ?? ""),
+    ])
+  );
+  const substitute = (text: string) =>
+    text.replace(
+      /{{\s*([^}]+?)\s*}}/g,
+      (match, name: string) => variables[name] ?? match
+    );
+
+  const requests: ApiRequest[] = [];
+  const warnings: string[] = [];
+
+  const walk = (items: unknown, folder: string) => {
+    for (const item of asObjects(items)) {
+      const name = `${folder}${item.name ?? "unnamed"}`;
+
+      if (Array.isArray(item.item)) {
+        walk(item.item, `${name}/`);
+        continue;
+      }
+      if (!item.request) continue;
+
+      try {
+        requests.push(expandRequest(item.request, substitute));
+      } catch (error) {
+        warnings.push(
+          `Postman request ${name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  };
+
+  walk(collection.item, "");
+
+  return { requests, warnings };
+}
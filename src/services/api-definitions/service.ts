@@ -0,0 +1,164 @@
+import axios from "axios";
+import { parse as parseYaml } from "yaml";
+import { ApiDefinitionError } from "./exceptions";
+import type { ApiDefinition, ApiDefinitionResult } from "./types";
+import { expandOpenApi } from "./openapi";
+import { expandPostmanCollection } from "./postman";
+import { expandGraphqlSchema, INTROSPECTION_QUERY } from "./graphql";
+import { asObject } from "./utils";
+import { logger } from "@/logger";
+import { TargetValidator } from "@/services/target-validation/service";
+import { pinnedLookup } from "@/services/target-validation/utils";
+
+/**
+ * Default configuration values for fetching definitions
+ */
+const DEFAULT_CONFIG = {
+  timeout: 30000,
+} as const;
+
+/**
+ * Service for turning API definitions into concrete scan requests
+ */
+export class ApiDefinitionService {
+  private targetValidator = new TargetValidator();
+
+  /**
+   * Fetches the raw definition document from its URL or inline content
+   * @throws {TargetValidationError} If the URL is on an internal network
+   */
+  private async loadDocument(definition: {
+    url?: string;
+    content?: string;
+  }): Promise<string> {
+    if (definition.content) return definition.content;
+
+    // The URL is tenant-supplied, so only its validated addresses are used
+    const target = await this.targetValidator.validate(definition.url!);
+    try {
+      // Only the URL itself is validated, so a redirect must not be followed
+      const response = await axios.get(definition.url!, {
+        timeout: DEFAULT_CONFIG.timeout,
+        maxRedirects: 0,
+        lookup: pinnedLookup(target),
+        responseType: "text",
+        transformResponse: (data) => data,
+      });
+      return response.data;
+    } catch (error) {
+      throw new ApiDefinitionError(
+        `Failed to fetch definition from ${definition.url}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parses a JSON or YAML document
+   */
+  private parseDocument(raw: string): unknown {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      try {
+        return parseYaml(raw);
+      } catch (error) {
+        throw new ApiDefinitionError(
+          `Definition is neither valid JSON nor YAML: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Runs an introspection query against a GraphQL endpoint
+   * @throws {TargetValidationError} If the endpoint is on an internal network
+   */
+  private async introspect(endpointUrl: string): Promise<unknown> {
+    const target = await this.targetValidator.validate(endpointUrl);
+    try {
+      const response = await axios.post(
+        endpointUrl,
+        { query: INTROSPECTION_QUERY },
+        {
+          timeout: DEFAULT_CONFIG.timeout,
+          maxRedirects: 0,
+          lookup: pinnedLookup(target),
+        }
+      );
+      return response.data?.data?.__schema;
+    } catch (error) {
+      throw new ApiDefinitionError(
+        `GraphQL introspection failed for ${endpointUrl}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Expands an API definition into concrete requests with example parameters
+   * @param definition - The API definition from the scan request
+   * @param fallbackBaseUrl - Base URL for definitions that declare no server
+   * @returns Generated requests and any per-operation warnings
+   * @throws {ApiDefinitionError} If the definition cannot be loaded or parsed
+   * @throws {TargetValidationError} If its URL is on an internal network
+   *
+   * @example
+   * ```typescript
+   * const apiDefinitions = new ApiDefinitionService();
+   * const { requests } = await apiDefinitions.expand(
+   *   { type: "openapi", url: "https://example.com/openapi.json" },
+   *   "https://example.com"
+   * );
+   * ```
+   */
+  async expand(
+    definition: ApiDefinition,
+    fallbackBaseUrl: string
+  ): Promise<ApiDefinitionResult> {
+    logger.info("Expanding API definition", {
+      type: definition.type,
+      source:
+        definition.type === "graphql"
+          ? definition.endpointUrl
+          : definition.url ?? "inline",
+    });
+
+    let result: ApiDefinitionResult;
+    switch (definition.type) {
+      case "openapi": {
+        const document = this.parseDocument(
+          await this.loadDocument(definition)
+        );
+        result = expandOpenApi(document, definition.url ?? fallbackBaseUrl);
+        break;
+      }
+      case "postman": {
+        const document = this.parseDocument(
+          await this.loadDocument(definition)
+        );
+        result = expandPostmanCollection(
+          asObject(document)?.collection ?? document
+        );
+        break;
+      }
+      case "graphql": {
+        const schema = await this.introspect(definition.endpointUrl);
+        result = expandGraphqlSchema(schema, definition.endpointUrl);
+        break;
+      }
+    }
+
+    logger.info("Expanded API definition", {
+      type: definition.type,
+      totalRequests: result.requests.length,
+      warnings: result.warnings.length,
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Zod schema for a definition fetched from a URL or passed inline
+const DefinitionSourceSchema = z.object({
+  url: z.string().url().optional(),
+  content: z.string().optional(),
+});
+
+// Zod schema for the API definition attached to a scan request
+export const ApiDefinitionSchema = z
+  .discriminatedUnion("type", [
+    DefinitionSourceSchema.extend({ type: z.literal("openapi") }),
+    DefinitionSourceSchema.extend({ type: z.literal("postman") }),
+    z.object({
+      type: z.literal("graphql"),
+      endpointUrl: z.string().url(),
+    }),
+  ])
+  .refine(
+    (definition) =>
+      definition.type === "graphql" || !!definition.url || !!definition.content,
+    { message: "Either url or content is required" }
+  );
+
+export type ApiDefinition = z.infer<typeof ApiDefinitionSchema>;
+
+/**
+ * Concrete HTTP request expanded from an API definition
+ */
+export interface ApiRequest {
+  /** HTTP method */
+  method: string;
+  /** Fully resolved URL including example query parameters */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body */
+  body?: string;
+}
+
+/**
+ * Results of expanding an API definition
+ */
+export interface ApiDefinitionResult {
+  /** Requests generated from the definition */
+  requests: ApiRequest[];
+  /** Problems that did not prevent the rest of the definition from loading */
+  warnings: string[];
+}
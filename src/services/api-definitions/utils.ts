@@ -0,0 +1,42 @@
+/**
+ * A parsed JSON or YAML object whose fields have not been checked yet
+ */
+export type JsonObject = { [key: string]: unknown };
+
+/**
+ * Whether a parsed value is an object other than an array
+ */
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Narrows a parsed value to an object
+ * @returns The object, or undefined for any other value
+ */
+export function asObject(value: unknown): JsonObject | undefined {
+  return isJsonObject(value) ? value : undefined;
+}
+
+/**
+ * Narrows a parsed value to an array
+ * @returns The array, or an empty array for any other value
+ */
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Narrows a parsed value to the objects of an array, skipping other entries
+ */
+export function asObjects(value: unknown): JsonObject[] {
+  return asArray(value).filter(isJsonObject);
+}
+
+/**
+ * Narrows a parsed value to a string
+ * @returns The string, or undefined for any other value
+ */
+export function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
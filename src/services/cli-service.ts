@@ -2,6 +2,8 @@ import which from "which";
 import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
 import { promisify } from "util";
 import { logger } from "@/logger";
+import { subprocessExitsTotal } from "@/metrics";
+import { TargetValidator } from "@/services/target-validation/service";
 import { log } from "console";
 
 /**
@@ -11,6 +13,7 @@ export abstract class CliService {
   protected binaryPath: string = "";
   protected isInitialized = false;
   protected abstract binaryName: string;
+  protected targetValidator = new TargetValidator();
 
   /**
    * Initializes the service by locating the binary
@@ -37,14 +40,30 @@ export abstract class CliService {
     }
   }
 
+  /**
+   * Checks that the binary can be found in the system PATH
+   * @returns Whether the binary was found
+   */
+  async isBinaryAvailable(): Promise<boolean> {
+    try {
+      await this.initialize();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Executes a command and returns its output
    * @param command - Array of command parts to execute
+   * @param signal - Aborting this signal kills the process
    * @returns Promise containing stdout and stderr
    * @throws {Error} If command execution fails
+   * @throws The signal's abort reason if the process is killed by the signal
    */
   protected async runCommand(
-    command: string[]
+    command: string[],
+    signal?: AbortSignal
   ): Promise<{ stdout: string; stderr: string }> {
     if (!command.length) {
       throw this.createError("Empty command provided");
@@ -64,6 +83,7 @@ export abstract class CliService {
 
       const child = spawn(cmd, args, {
         stdio: ["pipe", "pipe", "pipe"],
+        signal,
       }) as ChildProcessWithoutNullStreams;
 
       child.stdout.on("data", (data: Buffer) => {
@@ -76,6 +96,13 @@ export abstract class CliService {
       });
 
       child.on("error", (err: Error) => {
+        if (signal?.aborted) {
+          logger.info("Command killed by cancellation", {
+            command: command[0],
+          });
+          reject(signal.reason);
+          return;
+        }
         logger.error("Command execution failed", {
           command: command.join(" "),
           error: err.message,
@@ -86,8 +113,14 @@ export abstract class CliService {
       });
 
       child.on("close", (code: number | null) => {
+        subprocessExitsTotal.inc({
+          binary: this.binaryName,
+          exit_code: code ?? "signal",
+        });
         if (code === 0) {
           resolve({ stdout, stderr });
+        } else if (signal?.aborted) {
+          reject(signal.reason);
         } else {
           logger.error("Command execution failed", {
             command: command.join(" "),
@@ -106,22 +139,17 @@ export abstract class CliService {
   }
 
   /**
-   * Validates target URLs
+   * Validates target URLs, rejecting any that resolve to internal networks
    * @param targets - List of URLs to process
-   * @throws {Error} If targets are invalid
+   * @throws {Error} If no targets are provided
+   * @throws {TargetValidationError} If any target must not be scanned
    */
-  protected validateTargets(targets: string[]): void {
+  protected async validateTargets(targets: string[]): Promise<void> {
     if (!targets.length) {
       throw this.createError("No targets provided");
     }
 
-    if (
-      !targets.every(
-        (url) => url.startsWith("http://") || url.startsWith("https://")
-      )
-    ) {
-      throw this.createError("All targets must start with http:// or https://");
-    }
+    await this.targetValidator.validateAll(targets);
   }
 
   /**
@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DomainVerifier,
+  VERIFICATION_FILE_PATH,
+  VERIFICATION_RECORD_PREFIX,
+  VERIFICATION_VALUE_PREFIX,
+} from "./service";
+
+const PROJECT_ID = "project-1";
+
+/**
+ * Builds a verifier whose DNS holds the given TXT records and whose hosts
+ * serve the given token files, keyed by record name and URL
+ */
+function verifierWith(
+  records: Record<string, string[][]>,
+  files: Record<string, string> = {}
+): DomainVerifier {
+  return new DomainVerifier({
+    secret: "test-secret",
+    resolveTxt: async (hostname) => {
+      const found = records[hostname];
+      if (!found) throw new Error(`queryTxt ENOTFOUND ${hostname}`);
+      return found;
+    },
+    fetchTokenFile: async (url) => {
+      const body = files[url];
+      if (body === undefined) throw new Error("Request failed with 404");
+      return body;
+    },
+  });
+}
+
+const token = verifierWith({}).getToken(PROJECT_ID);
+const txtValue = VERIFICATION_VALUE_PREFIX + token;
+
+test("verifies a host through a TXT record on the host", async () => {
+  const verifier = verifierWith({
+    [`${VERIFICATION_RECORD_PREFIX}.app.example.com`]: [[txtValue]],
+  });
+
+  assert.deepEqual(await verifier.verify(PROJECT_ID, "app.example.com"), {
+    host: "app.example.com",
+    domain: "app.example.com",
+    method: "dns_txt",
+  });
+});
+
+test("verifies a host through a TXT record on a parent domain", async () => {
+  const verifier = verifierWith({
+    // Long records arrive split into chunks
+    [`${VERIFICATION_RECORD_PREFIX}.example.com`]: [
+      ["unrelated"],
+      [txtValue.slice(0, 10), txtValue.slice(10)],
+    ],
+  });
+
+  assert.deepEqual(
+    await verifier.verify(PROJECT_ID, "api.app.example.com:8443"),
+    {
+      host: "api.app.example.com:8443",
+      domain: "example.com",
+      method: "dns_txt",
+    }
+  );
+});
+
+test("ignores another project's token", async () => {
+  const verifier = verifierWith({
+    [`${VERIFICATION_RECORD_PREFIX}.example.com`]: [
+      [VERIFICATION_VALUE_PREFIX + verifierWith({}).getToken("project-2")],
+    ],
+  });
+
+  assert.deepEqual(await verifier.verify(PROJECT_ID, "example.com"), {
+    host: "example.com",
+  });
+});
+
+test("verifies only the exact host serving the token file", async () => {
+  const verifier = verifierWith(
+    {},
+    { [`http://app.example.com:8080${VERIFICATION_FILE_PATH}`]: `${token}\n` }
+  );
+
+  assert.deepEqual(await verifier.verify(PROJECT_ID, "app.example.com:8080"), {
+    host: "app.example.com:8080",
+    domain: "app.example.com",
+    method: "well_known",
+  });
+  assert.deepEqual(await verifier.verify(PROJECT_ID, "api.example.com"), {
+    host: "api.example.com",
+  });
+});
@@ -0,0 +1,152 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { promises as dns } from "dns";
+import { env } from "@/env.mjs";
+import { logger } from "@/logger";
+import { TargetValidator } from "@/services/target-validation/service";
+import { pinnedLookup } from "@/services/target-validation/utils";
+import type {
+  DomainVerificationResult,
+  DomainVerifierConfig,
+  TokenFileFetcher,
+  TxtResolver,
+} from "./types";
+
+/**
+ * Default configuration values for verification
+ */
+const DEFAULT_CONFIG = {
+  timeout: 10000,
+} as const;
+
+/** Label of the TXT record holding the token */
+export const VERIFICATION_RECORD_PREFIX = "_launch-check";
+
+/** Prefix of the token value in the TXT record */
+export const VERIFICATION_VALUE_PREFIX = "launch-check-verification=";
+
+/** Path of the token file served by the host */
+export const VERIFICATION_FILE_PATH =
+  "/.well-known/launch-check-verification.txt";
+
+/**
+ * Service for checking that a project controls the hosts it scans, either
+ * through a TXT record on the host or a parent domain, or a token file
+ * served by the host itself
+ */
+export class DomainVerifier {
+  private secret: string;
+  private resolveTxt: TxtResolver;
+  private fetchTokenFile: TokenFileFetcher;
+  private timeout: number;
+  private targetValidator = new TargetValidator();
+
+  constructor(config: DomainVerifierConfig = {}) {
+    this.secret = config.secret ?? env.DOMAIN_VERIFICATION_SECRET;
+    this.resolveTxt =
+      config.resolveTxt ?? ((hostname) => dns.resolveTxt(hostname));
+    this.fetchTokenFile =
+      config.fetchTokenFile ?? ((url) => this.fetchValidated(url));
+    this.timeout = config.timeout ?? DEFAULT_CONFIG.timeout;
+  }
+
+  /**
+   * Gets the token a project has to publish to prove ownership
+   * @param projectId - Project the token belongs to
+   */
+  getToken(projectId: string): string {
+    return createHmac("sha256", this.secret)
+      .update(projectId)
+      .digest("hex")
+      .slice(0, 32);
+  }
+
+  /**
+   * Verifies that a project controls a host
+   * @param projectId - Project claiming the host
+   * @param host - Hostname, with port if the target uses one
+   * @returns The domain and method that proved ownership, if any
+   */
+  async verify(
+    projectId: string,
+    host: string
+  ): Promise<DomainVerificationResult> {
+    const token = this.getToken(projectId);
+    const hostname = host.replace(/:\d+$/, "").toLowerCase();
+
+    const domain = await this.findTxtRecord(hostname, token);
+    if (domain) return { host, domain, method: "dns_txt" };
+
+    if (await this.hasTokenFile(host, token)) {
+      return { host, domain: hostname, method: "well_known" };
+    }
+
+    return { host };
+  }
+
+  /**
+   * Looks for the token on the hostname and each of its parent domains
+   * @returns The domain carrying the record, if any
+   */
+  private async findTxtRecord(
+    hostname: string,
+    token: string
+  ): Promise<string | null> {
+    const labels = hostname.split(".");
+    for (let index = 0; index < labels.length - 1; index++) {
+      const domain = labels.slice(index).join(".");
+      try {
+        const records = await this.resolveTxt(
+          `${VERIFICATION_RECORD_PREFIX}.${domain}`
+        );
+        if (
+          records.some(
+            (chunks) => chunks.join("") === VERIFICATION_VALUE_PREFIX + token
+          )
+        ) {
+          return domain;
+        }
+      } catch (error) {
+        // Missing records surface as ENOTFOUND/ENODATA
+        logger.debug("No verification TXT record", {
+          domain,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether the host serves the token file over HTTPS or HTTP
+   */
+  private async hasTokenFile(host: string, token: string): Promise<boolean> {
+    for (const protocol of ["https", "http"]) {
+      const url = `${protocol}://${host}${VERIFICATION_FILE_PATH}`;
+      try {
+        if ((await this.fetchTokenFile(url)).trim() === token) return true;
+      } catch (error) {
+        logger.debug("No verification token file", {
+          url,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Fetches a token file from the addresses the target validator allowed
+   */
+  private async fetchValidated(url: string): Promise<string> {
+    const target = await this.targetValidator.validate(url);
+    const response = await axios.get(url, {
+      timeout: this.timeout,
+      maxRedirects: 0,
+      lookup: pinnedLookup(target),
+      responseType: "text",
+      transformResponse: (data) => data,
+    });
+    return String(response.data);
+  }
+}
@@ -0,0 +1,41 @@
+import { domainVerificationMethodEnum } from "@/db/schema";
+
+export type DomainVerificationMethod =
+  (typeof domainVerificationMethodEnum.enumValues)[number];
+
+/**
+ * Looks up the TXT records of a hostname, one array of chunks per record
+ */
+export type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+/**
+ * Fetches the body of a host's token file
+ * @throws If the file cannot be fetched
+ */
+export type TokenFileFetcher = (url: string) => Promise<string>;
+
+/**
+ * Configuration options for domain verification
+ */
+export interface DomainVerifierConfig {
+  /** Secret the per-project tokens are derived from (default: DOMAIN_VERIFICATION_SECRET) */
+  secret?: string;
+  /** Resolver used for TXT lookups (default: the system resolver) */
+  resolveTxt?: TxtResolver;
+  /** Fetcher used for token files (default: axios, pinned to validated addresses) */
+  fetchTokenFile?: TokenFileFetcher;
+  /** Timeout for fetching the well-known token file in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Outcome of verifying one host
+ */
+export interface DomainVerificationResult {
+  /** Host that was checked */
+  host: string;
+  /** Domain whose proof was found (the host or one of its parents) */
+  domain?: string;
+  /** How ownership was proven, if it was */
+  method?: DomainVerificationMethod;
+}
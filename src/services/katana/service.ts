@@ -44,6 +44,8 @@ export class KatanaService extends CliService {
       crawlRobots,
       crawlSitemap,
       displayFormFields,
+      crawlScope,
+      crawlOutScope,
     } = options;
 
     const command = [this.binaryPath, "-u", targets.join(",")];
@@ -90,6 +92,18 @@ export class KatanaService extends CliService {
       command.push("-field");
     }
 
+    if (crawlScope?.length) {
+      // The regexes replace Katana's default root-domain scope
+      command.push("-ns");
+      crawlScope.forEach((regex) => {
+        command.push("-cs", regex);
+      });
+    }
+
+    crawlOutScope?.forEach((regex) => {
+      command.push("-cos", regex);
+    });
+
     if (outputFile) {
       command.push("-output", outputFile);
     }
@@ -159,8 +173,10 @@ export class KatanaService extends CliService {
    * Crawls specified targets to discover endpoints and web assets
    * @param targets - List of URLs to crawl
    * @param options - Crawl configuration options
+   * @param signal - Aborting this signal kills the crawl
    * @returns Crawl results including discovered endpoints and metadata
    * @throws {KatanaError} If crawl fails or targets are invalid
+   * @throws {TargetValidationError} If a target resolves to an internal network
    *
    * @example
    * ```typescript
@@ -173,9 +189,10 @@ export class KatanaService extends CliService {
    */
   async crawlTarget(
     targets: string[],
-    options: KatanaOptions = {}
+    options: KatanaOptions = {},
+    signal?: AbortSignal
   ): Promise<CrawlResult> {
-    this.validateTargets(targets);
+    await this.validateTargets(targets);
 
     if (!this.isInitialized) {
       await this.initialize();
@@ -194,7 +211,7 @@ export class KatanaService extends CliService {
       });
 
       const command = this.buildCommand(targets, options);
-      const { stdout, stderr } = await this.runCommand(command);
+      const { stdout, stderr } = await this.runCommand(command, signal);
 
       // Check if we got any output
       if (!stdout && !stderr) {
@@ -220,6 +237,9 @@ export class KatanaService extends CliService {
 
       return results;
     } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
       logger.error("Crawl failed", {
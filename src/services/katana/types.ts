@@ -28,6 +28,10 @@ export interface KatanaOptions {
   crawlSitemap?: boolean;
   /** Whether to display form fields */
   displayFormFields?: boolean;
+  /** Regexes of URLs the crawl stays within */
+  crawlScope?: string[];
+  /** Regexes of URLs the crawl never visits */
+  crawlOutScope?: string[];
 }
 
 /**
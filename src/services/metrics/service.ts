@@ -0,0 +1,233 @@
+import type {
+  GaugeOptions,
+  HistogramOptions,
+  Labels,
+  Metric,
+  MetricOptions,
+} from "./types";
+
+/** Default histogram buckets, in seconds */
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(String(value))}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Base of every metric: keeps one series per label combination
+ */
+abstract class BaseMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    protected options: MetricOptions,
+    private type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected getSeries(labels: Labels, create: () => T): T {
+    const names = this.options.labelNames ?? [];
+    const ordered: Labels = {};
+    for (const name of names) {
+      if (labels[name] === undefined) {
+        throw new Error(`Metric ${this.options.name} is missing label ${name}`);
+      }
+      ordered[name] = labels[name]!;
+    }
+
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  render(): string {
+    const { name, help } = this.options;
+    const lines = [
+      `# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Value that only goes up, such as a number of processed jobs
+ */
+export class Counter extends BaseMetric<{ value: number }> {
+  constructor(options: MetricOptions) {
+    super(options, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.options.name} cannot decrease`);
+    }
+    this.getSeries(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, { value }: { value: number }) {
+    return [
+      `${this.options.name}${formatLabels(labels)} ${formatValue(value)}`,
+    ];
+  }
+}
+
+/**
+ * Value that goes up and down, such as the number of running jobs
+ */
+export class Gauge extends BaseMetric<{ value: number }> {
+  constructor(private gaugeOptions: GaugeOptions) {
+    super(gaugeOptions, "gauge");
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSeries(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  render(): string {
+    if (this.gaugeOptions.collect) {
+      this.series.clear();
+      this.gaugeOptions.collect(this);
+    }
+    return super.render();
+  }
+
+  protected renderSeries(labels: Labels, { value }: { value: number }) {
+    return [
+      `${this.options.name}${formatLabels(labels)} ${formatValue(value)}`,
+    ];
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, such as request durations
+ */
+export class Histogram extends BaseMetric<HistogramSeries> {
+  private buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super(options, "histogram");
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const series = this.getSeries(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    for (const [index, bound] of this.buckets.entries()) {
+      if (value <= bound) series.counts[index]!++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Starts timing something
+   * @returns Function that observes the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): () => void {
+    const startedAt = performance.now();
+    return () => this.observe((performance.now() - startedAt) / 1000, labels);
+  }
+
+  protected renderSeries(labels: Labels, series: HistogramSeries) {
+    const { name } = this.options;
+    return [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${name}_bucket${formatLabels({
+            ...labels,
+            le: formatValue(bound),
+          })} ${series.counts[index]}`
+      ),
+      `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${
+        series.count
+      }`,
+      `${name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+      `${name}_count${formatLabels(labels)} ${series.count}`,
+    ];
+  }
+}
+
+/**
+ * Collection of metrics exposed together in the Prometheus text format
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, new Counter(options));
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.register(options.name, new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options.name, new Histogram(options));
+  }
+
+  /**
+   * Renders every metric for a scrape
+   */
+  render(): string {
+    return (
+      [...this.metrics.values()].map((metric) => metric.render()).join("\n") +
+      "\n"
+    );
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Label values of one series
+ */
+export type Labels = Record<string, string | number>;
+
+/**
+ * Options shared by every metric
+ */
+export interface MetricOptions {
+  /** Metric name, including any unit suffix */
+  name: string;
+  /** Description shown in the HELP line */
+  help: string;
+  /** Names of the labels every series sets */
+  labelNames?: readonly string[];
+}
+
+/**
+ * Options for a gauge
+ */
+export interface GaugeOptions extends MetricOptions {
+  /** Called on every scrape to set the gauge's current values */
+  collect?: (gauge: { set: (value: number, labels?: Labels) => void }) => void;
+}
+
+/**
+ * Options for a histogram
+ */
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds of the buckets, ascending */
+  buckets?: number[];
+}
+
+/**
+ * Metric that can render itself in the Prometheus text format
+ */
+export interface Metric {
+  render(): string;
+}
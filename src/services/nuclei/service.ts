@@ -38,6 +38,7 @@ export class NucleiService extends CliService {
     const {
       severity,
       templates,
+      tags,
       outputFile,
       rateLimit = DEFAULT_CONFIG.rateLimit,
       timeout = DEFAULT_CONFIG.timeout,
@@ -59,6 +60,10 @@ export class NucleiService extends CliService {
       command.push("-t", templates.join(","));
     }
 
+    if (tags?.length) {
+      command.push("-tags", tags.join(","));
+    }
+
     if (outputFile) {
       command.push("-output", outputFile);
     }
@@ -129,8 +134,10 @@ export class NucleiService extends CliService {
    * Runs a security scan against specified targets
    * @param targets - List of URLs to scan
    * @param options - Scan configuration options
+   * @param signal - Aborting this signal kills the scan
    * @returns Scan results including findings and metadata
    * @throws {NucleiError} If scan fails or targets are invalid
+   * @throws {TargetValidationError} If a target resolves to an internal network
    *
    * @example
    * ```typescript
@@ -143,9 +150,10 @@ export class NucleiService extends CliService {
    */
   async scanTarget(
     targets: string[],
-    options: NucleiOptions = {}
+    options: NucleiOptions = {},
+    signal?: AbortSignal
   ): Promise<ScanResult> {
-    this.validateTargets(targets);
+    await this.validateTargets(targets);
 
     if (!this.isInitialized) {
       await this.initialize();
@@ -154,7 +162,7 @@ export class NucleiService extends CliService {
     try {
       logger.info("Starting security scan", { targets, options });
       const command = this.buildCommand(targets, options);
-      const { stdout, stderr } = await this.runCommand(command);
+      const { stdout, stderr } = await this.runCommand(command, signal);
       const results = this.parseResults(stdout, stderr, targets);
 
       logger.info("Scan completed successfully", {
@@ -164,6 +172,9 @@ export class NucleiService extends CliService {
 
       return results;
     } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
       throw this.createError(`Scan failed: ${errorMessage}`);
@@ -8,6 +8,8 @@ export enum SCAN_STATUS {
   InProgress = "in_progress",
   Completed = "completed",
   Failed = "failed",
+  Cancelled = "cancelled",
+  Interrupted = "interrupted",
 }
 
 /**
@@ -18,6 +20,8 @@ export interface NucleiOptions {
   severity?: Array<"critical" | "high" | "medium" | "low" | "info">;
   /** List of template paths to use */
   templates?: string[];
+  /** List of template tags to run */
+  tags?: string[];
   /** Path to save JSON results */
   outputFile?: string;
   /** Number of requests per second */
@@ -47,8 +51,13 @@ export interface ScanResult {
 // Zod schema for the classification object
 export const ClassificationSchema = z
   .object({
-    "cve-id": z.string().nullable().optional(),
+    "cve-id": z
+      .union([z.string(), z.array(z.string())])
+      .nullable()
+      .optional(),
     "cwe-id": z.array(z.string()).optional(),
+    "cvss-metrics": z.string().optional(),
+    "cvss-score": z.number().optional(),
   })
   .passthrough();
 
@@ -66,6 +75,11 @@ export const InfoSchema = z.object({
   tags: z.array(z.string()).optional(),
   description: z.string().optional(),
   severity: z.string().optional(),
+  reference: z
+    .union([z.string(), z.array(z.string())])
+    .nullable()
+    .optional(),
+  remediation: z.string().optional(),
   metadata: MetadataSchema.optional(),
   classification: ClassificationSchema.optional(),
 });
@@ -82,6 +96,7 @@ export const NucleiFindingSchema = z
     type: z.string().optional(),
     host: z.string().optional(),
     "matched-at": z.string().optional(),
+    "extracted-results": z.array(z.string()).optional(),
     request: z.string().optional(),
     timestamp: z.string().optional(),
     "matcher-status": z.boolean().optional(),
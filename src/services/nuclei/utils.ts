@@ -0,0 +1,68 @@
+/**
+ * Maps Nuclei template severity to our schema's severity levels
+ */
+export function mapNucleiSeverity(
+  severity: string | undefined
+): "critical" | "high" | "medium" | "low" | "info" {
+  switch (severity?.toLowerCase()) {
+    case "critical":
+      return "critical";
+    case "high":
+      return "high";
+    case "medium":
+      return "medium";
+    case "low":
+      return "low";
+    default:
+      return "info";
+  }
+}
+
+/**
+ * Maps Nuclei template severity to our schema's risk levels
+ */
+export function mapNucleiSeverityToRiskLevel(
+  severity: string | undefined
+): "high" | "medium" | "low" | "info" {
+  const level = mapNucleiSeverity(severity);
+  // Risk levels mirror ZAP's scale, which has no critical level
+  return level === "critical" ? "high" : level;
+}
+
+/**
+ * Parses a raw HTTP request as emitted by Nuclei into its parts
+ */
+export function parseRawHttpRequest(raw: string | undefined): {
+  method: string | null;
+  headers: Record<string, string> | null;
+  body: string | null;
+} {
+  if (!raw) {
+    return { method: null, headers: null, body: null };
+  }
+
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const separatorIndex = normalized.indexOf("\n\n");
+  const head =
+    separatorIndex === -1 ? normalized : normalized.slice(0, separatorIndex);
+  const body =
+    separatorIndex === -1 ? "" : normalized.slice(separatorIndex + 2);
+
+  const [requestLine = "", ...headerLines] = head.split("\n");
+  const method = requestLine.split(" ")[0] || null;
+
+  const headers: Record<string, string> = {};
+  for (const line of headerLines) {
+    const colonIndex = line.indexOf(":");
+    if (colonIndex === -1) continue;
+    headers[line.slice(0, colonIndex).trim()] = line
+      .slice(colonIndex + 1)
+      .trim();
+  }
+
+  return {
+    method,
+    headers: Object.keys(headers).length > 0 ? headers : null,
+    body: body || null,
+  };
+}
@@ -0,0 +1,239 @@
+import type { ScanFinding } from "@/db/schema";
+import type { ReportInput, ReportSlots } from "./types";
+import {
+  SEVERITIES,
+  escapeHtml,
+  findingInstances,
+  formatDuration,
+  partitionFindings,
+  referenceUrls,
+  renderTemplate,
+} from "./utils";
+
+const SEVERITY_COLORS: Record<ScanFinding["severity"], string> = {
+  critical: "#7b1fa2",
+  high: "#d32f2f",
+  medium: "#f57c00",
+  low: "#fbc02d",
+  info: "#1976d2",
+};
+
+/**
+ * Template used when a project has none. Self-contained: styles are inline
+ * and nothing is loaded from elsewhere.
+ */
+export const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>{{title}}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #212121; }
+h1 { margin-bottom: 0; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #e0e0e0; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #fafafa; width: 12rem; }
+pre { background: #f5f5f5; padding: 0.6rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; }
+.finding { border: 1px solid #e0e0e0; border-left-width: 6px; border-radius: 4px; padding: 0 1rem 0.5rem; margin: 1rem 0; }
+.badge { display: inline-block; color: #fff; border-radius: 3px; padding: 0.1rem 0.5rem; font-size: 0.8rem; text-transform: uppercase; }
+.text { white-space: pre-wrap; }
+.muted { color: #757575; }
+</style>
+</head>
+<body>
+<h1>{{title}}</h1>
+<p class="muted">Generated {{generatedAt}}</p>
+<h2>Executive summary</h2>
+{{summary}}
+{{chart}}
+<h2>Findings</h2>
+{{findings}}
+{{fixed}}
+</body>
+</html>
+`;
+
+function row(label: string, value: string): string {
+  return `<tr><th>${escapeHtml(label)}</th><td>${value}</td></tr>`;
+}
+
+function text(value: string | null | undefined): string {
+  return value ? escapeHtml(value) : `<span class="muted">-</span>`;
+}
+
+function pre(value: string): string {
+  return `<pre>${escapeHtml(value)}</pre>`;
+}
+
+function badge(severity: ScanFinding["severity"]): string {
+  return `<span class="badge" style="background: ${SEVERITY_COLORS[severity]}">${severity}</span>`;
+}
+
+function formatHeaders(headers: unknown): string | null {
+  if (!headers || typeof headers !== "object") return null;
+  const lines = Object.entries(headers).map(
+    ([name, value]) => `${name}: ${String(value)}`
+  );
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+function renderSummary({ scan }: ReportInput): string {
+  return `<table>
+${row("Targets", scan.targetUrls.map(escapeHtml).join("<br>"))}
+${row("Profile", escapeHtml(scan.profile))}
+${row("Status", escapeHtml(scan.status))}
+${row("Started", escapeHtml(scan.startedAt.toISOString()))}
+${row("Duration", escapeHtml(formatDuration(scan.startedAt, scan.completedAt)))}
+${row("Findings", String(scan.totalFindings))}
+${row(
+  "Compared with previous scan",
+  `${scan.newFindings} new, ${scan.recurringFindings} recurring, ${scan.fixedFindings} fixed`
+)}
+${row("Suppressed", String(scan.suppressedFindings))}
+${row(
+  "Risk score",
+  `${scan.maxRiskScore.toFixed(1)} max, ${scan.avgRiskScore.toFixed(1)} average`
+)}
+</table>`;
+}
+
+/**
+ * Draws the findings per severity as an inline SVG bar chart
+ */
+function renderChart({ scan }: ReportInput): string {
+  const counts: Record<ScanFinding["severity"], number> = {
+    critical: scan.criticalCount,
+    high: scan.highCount,
+    medium: scan.mediumCount,
+    low: scan.lowCount,
+    info: scan.infoCount,
+  };
+  const max = Math.max(1, ...Object.values(counts));
+  const barHeight = 24;
+  const bars = SEVERITIES.map((severity, index) => {
+    const y = index * (barHeight + 8);
+    const width = Math.round((counts[severity] / max) * 400);
+    return `<text x="0" y="${y + 17}" font-size="14">${severity}</text>
+<rect x="80" y="${y}" width="${width}" height="${barHeight}" fill="${
+      SEVERITY_COLORS[severity]
+    }"></rect>
+<text x="${86 + width}" y="${y + 17}" font-size="14">${
+      counts[severity]
+    }</text>`;
+  }).join("\n");
+
+  return `<svg role="img" aria-label="Findings by severity" width="540" height="${
+    SEVERITIES.length * (barHeight + 8)
+  }" xmlns="http://www.w3.org/2000/svg">
+${bars}
+</svg>`;
+}
+
+function renderFinding(finding: ScanFinding): string {
+  const instances = findingInstances(finding);
+  const references = referenceUrls(finding);
+  const requestHeaders = formatHeaders(finding.requestHeaders);
+  const responseHeaders = formatHeaders(finding.responseHeaders);
+
+  return `<section class="finding" style="border-left-color: ${
+    SEVERITY_COLORS[finding.severity]
+  }">
+<h3>${badge(finding.severity)} ${escapeHtml(finding.name)}</h3>
+<table>
+${row("Engine", escapeHtml(finding.engine))}
+${row("Rule", escapeHtml(finding.pluginId))}
+${row("Confidence", escapeHtml(finding.confidence))}
+${row(
+  "Risk score",
+  finding.riskScore !== null ? finding.riskScore.toFixed(1) : text(null)
+)}
+${row("CVSS vector", text(finding.cvssVector))}
+${row("CWE", text(finding.cweIds?.join(", ")))}
+${row("CVE", text(finding.cveId))}
+${row("Status", text(finding.diffStatus))}
+</table>
+<h4>Description</h4>
+<p class="text">${escapeHtml(finding.description)}</p>
+<h4>Instances (${instances.length})</h4>
+<table>
+<tr><th>Method</th><th>URL</th><th>Parameter</th><th>Attack</th><th>Evidence</th></tr>
+${instances
+  .map(
+    (instance) =>
+      `<tr><td>${text(instance.method)}</td><td>${escapeHtml(
+        instance.url
+      )}</td><td>${text(instance.parameter)}</td><td>${
+        instance.attack ? pre(instance.attack) : text(null)
+      }</td><td>${
+        instance.evidence ? pre(instance.evidence) : text(null)
+      }</td></tr>`
+  )
+  .join("\n")}
+</table>
+${
+  finding.otherInfo
+    ? `<h4>Other information</h4>\n<p class="text">${escapeHtml(
+        finding.otherInfo
+      )}</p>`
+    : ""
+}
+${requestHeaders ? `<h4>Request headers</h4>\n${pre(requestHeaders)}` : ""}
+${responseHeaders ? `<h4>Response headers</h4>\n${pre(responseHeaders)}` : ""}
+<h4>Remediation</h4>
+<p class="text">${text(finding.solution)}</p>
+${
+  references.length > 0
+    ? `<h4>References</h4>\n<ul>\n${references
+        .map(
+          (url) =>
+            `<li><a href="${escapeHtml(
+              url
+            )}" rel="noopener noreferrer">${escapeHtml(url)}</a></li>`
+        )
+        .join("\n")}\n</ul>`
+    : ""
+}
+</section>`;
+}
+
+function renderFixed(fixed: ScanFinding[]): string {
+  if (fixed.length === 0) return "";
+  return `<h2>Fixed since previous scan</h2>
+<ul>
+${fixed
+  .map(
+    (finding) =>
+      `<li>${badge(finding.severity)} ${escapeHtml(
+        finding.name
+      )} <span class="muted">${escapeHtml(finding.url)}</span></li>`
+  )
+  .join("\n")}
+</ul>`;
+}
+
+/**
+ * Renders a scan into a single-file HTML report. Every value that comes from
+ * a scanned target is escaped, so evidence cannot inject markup.
+ * @param input - Scan and its stored findings
+ * @param template - Project template, {@link DEFAULT_HTML_TEMPLATE} if none
+ */
+export function renderHtmlReport(
+  input: ReportInput,
+  template: string = DEFAULT_HTML_TEMPLATE
+): string {
+  const { open, fixed } = partitionFindings(input.findings);
+  const target = input.scan.targetUrls[0] ?? input.scan.id;
+  const slots: ReportSlots = {
+    title: escapeHtml(`Security scan report: ${target}`),
+    generatedAt: escapeHtml(new Date().toISOString()),
+    summary: renderSummary(input),
+    chart: renderChart(input),
+    findings:
+      open.length > 0
+        ? open.map(renderFinding).join("\n")
+        : `<p class="muted">No open findings.</p>`,
+    fixed: renderFixed(fixed),
+  };
+  return renderTemplate(template, slots);
+}
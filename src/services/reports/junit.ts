@@ -0,0 +1,80 @@
+import type { ScanFinding } from "@/db/schema";
+import type { GateResult, ReportInput } from "./types";
+import { escapeXml, findingInstances } from "./utils";
+
+const SUITE_NAME = "security-gate";
+
+function testCaseName(finding: ScanFinding): string {
+  return `[${finding.severity}] ${finding.name} at ${finding.url}`;
+}
+
+function renderFailure(finding: ScanFinding, reasons: string[]): string {
+  const details = [
+    ...reasons,
+    "",
+    `Rule: ${finding.engine} ${finding.pluginId}`,
+    `Fingerprint: ${finding.fingerprint}`,
+    ...(finding.cweIds?.length ? [`CWE: ${finding.cweIds.join(", ")}`] : []),
+    ...findingInstances(finding).map(
+      (instance) =>
+        `Instance: ${[instance.method, instance.url]
+          .filter(Boolean)
+          .join(" ")}${
+          instance.parameter ? `, parameter ${instance.parameter}` : ""
+        }`
+    ),
+    ...(finding.solution ? ["", `Remediation: ${finding.solution}`] : []),
+  ].join("\n");
+
+  return `    <testcase name="${escapeXml(
+    testCaseName(finding)
+  )}" classname="${escapeXml(`${finding.engine}.${finding.pluginId}`)}">
+      <failure message="${escapeXml(reasons.join("; "))}" type="${
+    finding.severity
+  }">${escapeXml(details)}</failure>
+    </testcase>`;
+}
+
+/**
+ * Renders a gate verdict as JUnit XML for pipeline tools. Each finding that
+ * failed the gate is a failing test case; a passing gate is a single passing
+ * test case.
+ * @param input - Scan the gate was evaluated for
+ * @param gate - Verdict of the scan's gate policy
+ */
+export function renderJunitReport(
+  { scan }: Pick<ReportInput, "scan">,
+  gate: GateResult
+): string {
+  const testCases = gate.passed
+    ? [
+        `    <testcase name="Security gate" classname="${SUITE_NAME}"></testcase>`,
+      ]
+    : gate.failures.map(({ finding, reasons }) =>
+        renderFailure(finding, reasons)
+      );
+  const tests = testCases.length;
+  const failures = gate.passed ? 0 : tests;
+  const properties = [
+    { name: "scanId", value: scan.id },
+    { name: "verdict", value: gate.passed ? "passed" : "failed" },
+    ...gate.reasons.map((reason) => ({ name: "reason", value: reason })),
+  ].map(
+    ({ name, value }) =>
+      `      <property name="${name}" value="${escapeXml(value)}"/>`
+  );
+  const time = scan.completedAt
+    ? (scan.completedAt.getTime() - scan.startedAt.getTime()) / 1000
+    : 0;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${SUITE_NAME}" tests="${tests}" failures="${failures}" errors="0" time="${time}">
+  <testsuite name="${SUITE_NAME}" tests="${tests}" failures="${failures}" errors="0" skipped="0" timestamp="${scan.startedAt.toISOString()}" time="${time}">
+    <properties>
+${properties.join("\n")}
+    </properties>
+${testCases.join("\n")}
+  </testsuite>
+</testsuites>
+`;
+}
@@ -0,0 +1,176 @@
+import type { ScanFinding } from "@/db/schema";
+import type { ReportInput, ReportSlots } from "./types";
+import {
+  SEVERITIES,
+  escapeMarkdown,
+  findingInstances,
+  formatDuration,
+  markdownCodeBlock,
+  partitionFindings,
+  referenceUrls,
+  renderTemplate,
+} from "./utils";
+
+/** Findings listed in full; PR comments have a size limit */
+const MAX_FINDINGS = 50;
+
+/** Instances listed per finding */
+const MAX_INSTANCES = 5;
+
+/**
+ * Template used when a project has none
+ */
+export const DEFAULT_MARKDOWN_TEMPLATE = `## {{title}}
+
+{{summary}}
+
+{{chart}}
+
+### Findings
+
+{{findings}}
+
+{{fixed}}
+
+_Generated {{generatedAt}}_
+`;
+
+function renderSummary({ scan }: ReportInput): string {
+  return [
+    "| | |",
+    "| --- | --- |",
+    `| Targets | ${scan.targetUrls.map(escapeMarkdown).join("<br>")} |`,
+    `| Profile | ${escapeMarkdown(scan.profile)} |`,
+    `| Status | ${escapeMarkdown(scan.status)} |`,
+    `| Duration | ${formatDuration(scan.startedAt, scan.completedAt)} |`,
+    `| Findings | ${scan.totalFindings} (${scan.newFindings} new, ${scan.recurringFindings} recurring, ${scan.fixedFindings} fixed) |`,
+    `| Suppressed | ${scan.suppressedFindings} |`,
+    `| Risk score | ${scan.maxRiskScore.toFixed(
+      1
+    )} max, ${scan.avgRiskScore.toFixed(1)} average |`,
+  ].join("\n");
+}
+
+function renderChart({ scan }: ReportInput): string {
+  const counts: Record<ScanFinding["severity"], number> = {
+    critical: scan.criticalCount,
+    high: scan.highCount,
+    medium: scan.mediumCount,
+    low: scan.lowCount,
+    info: scan.infoCount,
+  };
+  const max = Math.max(1, ...Object.values(counts));
+  return [
+    "| Severity | Count | |",
+    "| --- | ---: | --- |",
+    ...SEVERITIES.map(
+      (severity) =>
+        `| ${severity} | ${counts[severity]} | ${"█".repeat(
+          Math.ceil((counts[severity] / max) * 20)
+        )} |`
+    ),
+  ].join("\n");
+}
+
+function renderFinding(finding: ScanFinding): string {
+  const instances = findingInstances(finding);
+  const references = referenceUrls(finding);
+  const evidence = instances.find((instance) => instance.evidence)?.evidence;
+
+  const lines = [
+    `#### ${finding.severity.toUpperCase()}: ${escapeMarkdown(finding.name)}`,
+    "",
+    `- Rule: ${escapeMarkdown(finding.engine)} ${escapeMarkdown(
+      finding.pluginId
+    )}`,
+    ...(finding.riskScore !== null
+      ? [
+          `- Risk score: ${finding.riskScore.toFixed(1)}${
+            finding.cvssVector ? ` (${escapeMarkdown(finding.cvssVector)})` : ""
+          }`,
+        ]
+      : []),
+    ...(finding.cweIds?.length
+      ? [`- CWE: ${escapeMarkdown(finding.cweIds.join(", "))}`]
+      : []),
+    ...(finding.cveId ? [`- CVE: ${escapeMarkdown(finding.cveId)}`] : []),
+    ...(finding.diffStatus
+      ? [`- Status: ${escapeMarkdown(finding.diffStatus)}`]
+      : []),
+    `- Instances (${instances.length}):`,
+    ...instances
+      .slice(0, MAX_INSTANCES)
+      .map(
+        (instance) =>
+          `  - ${escapeMarkdown(
+            [instance.method, instance.url].filter(Boolean).join(" ")
+          )}${
+            instance.parameter
+              ? `, parameter ${escapeMarkdown(instance.parameter)}`
+              : ""
+          }`
+      ),
+    ...(instances.length > MAX_INSTANCES
+      ? [`  - and ${instances.length - MAX_INSTANCES} more`]
+      : []),
+  ];
+
+  if (evidence) lines.push("", "Evidence:", "", markdownCodeBlock(evidence));
+  if (finding.solution) {
+    lines.push("", `Remediation: ${escapeMarkdown(finding.solution)}`);
+  }
+  if (references.length > 0) {
+    lines.push(
+      "",
+      `References: ${references
+        .map((url) => `<${new URL(url).href}>`)
+        .join(" ")}`
+    );
+  }
+  return lines.join("\n");
+}
+
+function renderFixed(fixed: ScanFinding[]): string {
+  if (fixed.length === 0) return "";
+  return [
+    "### Fixed since previous scan",
+    "",
+    ...fixed.map(
+      (finding) =>
+        `- ${finding.severity.toUpperCase()}: ${escapeMarkdown(
+          finding.name
+        )} (${escapeMarkdown(finding.url)})`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Renders a scan into a Markdown report sized for PR comments. Every value
+ * that comes from a scanned target is escaped or fenced.
+ * @param input - Scan and its stored findings
+ * @param template - Project template, {@link DEFAULT_MARKDOWN_TEMPLATE} if
+ * none
+ */
+export function renderMarkdownReport(
+  input: ReportInput,
+  template: string = DEFAULT_MARKDOWN_TEMPLATE
+): string {
+  const { open, fixed } = partitionFindings(input.findings);
+  const target = input.scan.targetUrls[0] ?? input.scan.id;
+  const findings = open.slice(0, MAX_FINDINGS).map(renderFinding);
+  if (open.length > MAX_FINDINGS) {
+    findings.push(
+      `_${open.length - MAX_FINDINGS} more findings are in the HTML report._`
+    );
+  }
+
+  const slots: ReportSlots = {
+    title: `Security scan report: ${escapeMarkdown(target)}`,
+    generatedAt: new Date().toISOString(),
+    summary: renderSummary(input),
+    chart: renderChart(input),
+    findings: findings.length > 0 ? findings.join("\n\n") : "No open findings.",
+    fixed: renderFixed(fixed),
+  };
+  return renderTemplate(template, slots);
+}
@@ -0,0 +1,235 @@
+import type { ScanFinding } from "@/db/schema";
+import type {
+  ReportInput,
+  SarifLevel,
+  SarifLog,
+  SarifResult,
+  SarifRule,
+  SarifRun,
+} from "./types";
+import { SEVERITIES, findingInstances, referenceUrls } from "./utils";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/** Key of the fingerprint in partialFingerprints, versioned with its inputs */
+const FINGERPRINT_KEY = "findingFingerprint/v1";
+
+type Engine = ScanFinding["engine"];
+
+const TOOLS: Record<Engine, { name: string; informationUri: string }> = {
+  zap: { name: "ZAP", informationUri: "https://www.zaproxy.org/" },
+  nuclei: {
+    name: "Nuclei",
+    informationUri: "https://github.com/projectdiscovery/nuclei",
+  },
+};
+
+const BASELINE_STATES = {
+  new: "new",
+  recurring: "unchanged",
+} as const;
+
+/**
+ * Maps a severity to the SARIF level code scanning tools filter on
+ */
+function toLevel(severity: ScanFinding["severity"]): SarifLevel {
+  switch (severity) {
+    case "critical":
+    case "high":
+      return "error";
+    case "medium":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+/**
+ * Tags a rule with its CWEs the way GitHub code scanning expects
+ */
+function cweTags(cweIds: string[] | null): string[] {
+  return (cweIds ?? [])
+    .map((cwe) => cwe.trim().toLowerCase().replace(/^cwe-/, ""))
+    .filter((cwe) => /^\d+$/.test(cwe) && cwe !== "0")
+    .map((cwe) => `external/cwe/cwe-${cwe}`);
+}
+
+/**
+ * Builds the help text of a rule from the finding's solution and references
+ */
+function buildHelp(finding: ScanFinding): SarifRule["help"] {
+  const references = referenceUrls(finding);
+  if (!finding.solution && references.length === 0) return undefined;
+
+  const text = [finding.solution, ...references].filter(Boolean).join("\n\n");
+  const markdown = [
+    finding.solution,
+    references.length > 0
+      ? `References:\n${references.map((url) => `- ${url}`).join("\n")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  return { text, markdown };
+}
+
+/**
+ * Orders findings from most to least severe, by severity then CVSS score
+ */
+function bySeverity(a: ScanFinding, b: ScanFinding): number {
+  return (
+    SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+    (b.cvssScore ?? 0) - (a.cvssScore ?? 0)
+  );
+}
+
+/**
+ * Builds the rule of a plugin from its most severe finding, so the rule's
+ * level and security severity never understate any of its results
+ */
+function buildRule(findings: ScanFinding[]): SarifRule {
+  const finding = findings.reduce((worst, candidate) =>
+    bySeverity(candidate, worst) < 0 ? candidate : worst
+  );
+  const cvssScore = Math.max(
+    ...findings.map((candidate) => candidate.cvssScore ?? 0)
+  );
+  const [helpUri] = referenceUrls(finding);
+
+  return {
+    id: finding.pluginId,
+    name: finding.name,
+    shortDescription: { text: finding.name },
+    fullDescription: { text: finding.description },
+    help: buildHelp(finding),
+    ...(helpUri ? { helpUri } : {}),
+    defaultConfiguration: { level: toLevel(finding.severity) },
+    properties: {
+      tags: [
+        ...new Set([
+          "security",
+          ...(finding.tags ?? []),
+          ...cweTags(finding.cweIds),
+        ]),
+      ],
+      ...(cvssScore > 0 ? { "security-severity": cvssScore.toFixed(1) } : {}),
+    },
+  };
+}
+
+function buildResult(finding: ScanFinding, ruleIndex: number): SarifResult {
+  const urls = [
+    ...new Set([
+      finding.url,
+      ...findingInstances(finding).map((instance) => instance.url),
+    ]),
+  ];
+
+  return {
+    ruleId: finding.pluginId,
+    ruleIndex,
+    level: toLevel(finding.severity),
+    message: {
+      text:
+        urls.length > 1
+          ? `${finding.name} (${urls.length} locations)`
+          : finding.name,
+    },
+    locations: urls.map((uri) => ({
+      physicalLocation: { artifactLocation: { uri } },
+    })),
+    webRequest: {
+      target: finding.url,
+      ...(finding.method ? { method: finding.method } : {}),
+      ...(finding.parameter ? { parameters: { [finding.parameter]: "" } } : {}),
+    },
+    partialFingerprints: { [FINGERPRINT_KEY]: finding.fingerprint },
+    ...(finding.diffStatus && finding.diffStatus !== "fixed"
+      ? { baselineState: BASELINE_STATES[finding.diffStatus] }
+      : {}),
+    ...(finding.suppressed
+      ? {
+          suppressions: [
+            {
+              kind: "external" as const,
+              justification: finding.suppressionRuleId
+                ? `Suppression rule ${finding.suppressionRuleId}`
+                : undefined,
+            },
+          ],
+        }
+      : {}),
+    properties: {
+      severity: finding.severity,
+      confidence: finding.confidence,
+      cvssScore: finding.cvssScore,
+      cvssVector: finding.cvssVector,
+      cveId: finding.cveId,
+      parameter: finding.parameter,
+      instanceCount: finding.instanceCount,
+    },
+  };
+}
+
+function buildRun(
+  engine: Engine,
+  findings: ScanFinding[],
+  scan: ReportInput["scan"]
+): SarifRun {
+  const byPlugin = new Map<string, ScanFinding[]>();
+  for (const finding of findings) {
+    byPlugin.set(finding.pluginId, [
+      ...(byPlugin.get(finding.pluginId) ?? []),
+      finding,
+    ]);
+  }
+  const pluginIds = [...byPlugin.keys()];
+  const rules = pluginIds.map((pluginId) =>
+    buildRule(byPlugin.get(pluginId) ?? [])
+  );
+  const results = findings.map((finding) =>
+    buildResult(finding, pluginIds.indexOf(finding.pluginId))
+  );
+
+  return {
+    tool: { driver: { ...TOOLS[engine], rules } },
+    automationDetails: { id: `${engine}/${scan.id}` },
+    invocations: [
+      {
+        executionSuccessful: scan.status === "completed",
+        startTimeUtc: scan.startedAt.toISOString(),
+        ...(scan.completedAt
+          ? { endTimeUtc: scan.completedAt.toISOString() }
+          : {}),
+      },
+    ],
+    results,
+  };
+}
+
+/**
+ * Exports a scan's findings as a SARIF 2.1.0 log with one run per engine, for
+ * GitHub code scanning and SARIF viewers. Copies of fixed issues kept for the
+ * scan's diff are left out, since the scan did not find them.
+ * @param input - Scan and its stored findings
+ * @param engines - Engines that ran; each gets a run even without results
+ */
+export function buildSarifLog(
+  { scan, findings }: ReportInput,
+  engines: Engine[] = ["zap", "nuclei"]
+): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: engines.map((engine) =>
+      buildRun(
+        engine,
+        findings.filter(
+          (finding) =>
+            finding.engine === engine && finding.diffStatus !== "fixed"
+        ),
+        scan
+      )
+    ),
+  };
+}
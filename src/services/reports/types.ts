@@ -0,0 +1,133 @@
+import type { Scan, ScanFinding } from "@/db/schema";
+
+/**
+ * Scan and findings a report is built from
+ */
+export interface ReportInput {
+  scan: Pick<
+    Scan,
+    | "id"
+    | "targetUrls"
+    | "status"
+    | "profile"
+    | "startedAt"
+    | "completedAt"
+    | "criticalCount"
+    | "highCount"
+    | "mediumCount"
+    | "lowCount"
+    | "infoCount"
+    | "totalFindings"
+    | "suppressedFindings"
+    | "avgRiskScore"
+    | "maxRiskScore"
+    | "newFindings"
+    | "recurringFindings"
+    | "fixedFindings"
+  >;
+  findings: ScanFinding[];
+}
+
+/**
+ * Sections a report template places with `{{name}}` placeholders. Values are
+ * already rendered for the template's format.
+ */
+export interface ReportSlots {
+  title: string;
+  generatedAt: string;
+  summary: string;
+  chart: string;
+  findings: string;
+  fixed: string;
+}
+
+/**
+ * Verdict of a scan's gate policy and the findings that failed it
+ */
+export interface GateResult {
+  passed: boolean;
+  reasons: string[];
+  failures: { finding: ScanFinding; reasons: string[] }[];
+}
+
+/**
+ * SARIF 2.1.0 objects produced by the exporter. Only the properties the
+ * exporter sets are declared.
+ * @see https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  automationDetails: { id: string };
+  invocations: Array<{
+    executionSuccessful: boolean;
+    startTimeUtc?: string;
+    endTimeUtc?: string;
+  }>;
+  results: SarifResult[];
+}
+
+export type SarifLevel = "error" | "warning" | "note" | "none";
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription: SarifMessage;
+  help?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    "security-severity"?: string;
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{
+    physicalLocation: { artifactLocation: { uri: string } };
+  }>;
+  webRequest?: {
+    target: string;
+    method?: string;
+    parameters?: Record<string, string>;
+  };
+  partialFingerprints: Record<string, string>;
+  baselineState?: "new" | "unchanged" | "absent";
+  suppressions?: Array<{
+    kind: "external";
+    justification?: string;
+  }>;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * One place a finding was seen, as stored in its instances
+ */
+export interface ReportInstance {
+  url: string;
+  method: string | null;
+  parameter: string | null;
+  attack: string | null;
+  evidence: string | null;
+}
@@ -0,0 +1,120 @@
+import type { ScanFinding } from "@/db/schema";
+import type { ReportInstance, ReportSlots } from "./types";
+
+/** Severities from most to least severe */
+export const SEVERITIES: ScanFinding["severity"][] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "info",
+];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills the `{{name}}` placeholders of a template in a single pass, so
+ * placeholders inside slot values are never expanded. Unknown ones are
+ * removed.
+ */
+export function renderTemplate(template: string, slots: ReportSlots): string {
+  return template.replace(PLACEHOLDER, (_, name: string) =>
+    Object.hasOwn(slots, name) ? slots[name as keyof ReportSlots] : ""
+  );
+}
+
+/**
+ * Escapes text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Escapes text for XML content and attribute values, dropping the control
+ * characters XML 1.0 cannot represent
+ */
+export function escapeXml(value: string): string {
+  return escapeHtml(
+    value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+  );
+}
+
+/**
+ * Escapes text for a single line of Markdown, including table cells. HTML
+ * is escaped too since Markdown renderers pass it through.
+ */
+export function escapeMarkdown(value: string): string {
+  return escapeHtml(value)
+    .replace(/[\\`*_[\]#+\-!|~]/g, "\\$&")
+    .replace(/\s*\r?\n\s*/g, " ");
+}
+
+/**
+ * Wraps text in a fenced code block whose fence no backtick run inside it
+ * can close
+ */
+export function markdownCodeBlock(value: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(value.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${value}\n${fence}`;
+}
+
+/**
+ * Extracts the http(s) URLs of a finding's references
+ */
+export function referenceUrls(finding: Pick<ScanFinding, "reference">) {
+  return (finding.reference ?? "")
+    .split(/\s+/)
+    .filter(
+      (reference) =>
+        URL.canParse(reference) && /^https?:$/.test(new URL(reference).protocol)
+    );
+}
+
+/**
+ * Reads the instances stored with a finding
+ */
+export function findingInstances(
+  finding: Pick<ScanFinding, "instances">
+): ReportInstance[] {
+  return Array.isArray(finding.instances)
+    ? (finding.instances as ReportInstance[])
+    : [];
+}
+
+/**
+ * Splits stored findings into the open issues a report lists, most severe
+ * first, and those fixed since the previous scan. Suppressed findings are
+ * only counted in the summary.
+ */
+export function partitionFindings(findings: ScanFinding[]) {
+  const open = findings
+    .filter((finding) => finding.diffStatus !== "fixed" && !finding.suppressed)
+    .sort(
+      (a, b) =>
+        SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+        (b.riskScore ?? 0) - (a.riskScore ?? 0)
+    );
+  const fixed = findings.filter((finding) => finding.diffStatus === "fixed");
+  return { open, fixed };
+}
+
+/**
+ * Formats a scan's duration as minutes and seconds
+ */
+export function formatDuration(startedAt: Date, completedAt: Date | null) {
+  if (!completedAt) return "-";
+  const seconds = Math.round(
+    (completedAt.getTime() - startedAt.getTime()) / 1000
+  );
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,67 @@
+import type { ScoringModel } from "./types";
+
+/**
+ * First scoring model. Published models must never change: add a new version
+ * instead, so findings scored with this one can be re-scored identically.
+ */
+const MODEL_2026_1: ScoringModel = {
+  version: "2026.1",
+  zapPlugins: {
+    // Path Traversal
+    "6": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N",
+    // Remote File Inclusion
+    "7": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    // Missing Anti-clickjacking Header
+    "10020": "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:L/A:N",
+    // X-Content-Type-Options Header Missing
+    "10021": null,
+    // Strict-Transport-Security Header Not Set
+    "10035": "CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N",
+    // Content Security Policy (CSP) Header Not Set
+    "10038": "CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N",
+    // Absence of Anti-CSRF Tokens
+    "10202": "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:L/A:N",
+    // CRLF Injection
+    "40003": "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N",
+    // Server Side Include
+    "40009": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    // Cross Site Scripting (Reflected)
+    "40012": "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N",
+    // Cross Site Scripting (Persistent)
+    "40014": "CVSS:3.1/AV:N/AC:L/PR:L/UI:R/S:C/C:L/I:L/A:N",
+    // SQL Injection
+    "40018": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    // Cross Site Scripting (DOM Based)
+    "40026": "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N",
+    // Server Side Request Forgery
+    "40046": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:L/I:L/A:N",
+    // Server Side Code Injection
+    "90019": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    // Remote OS Command Injection
+    "90020": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    // XML External Entity Attack
+    "90023": "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N",
+  },
+  // Most templates ship their own vector, which takes precedence over the
+  // engine severity but not over this table
+  nucleiTemplates: {},
+  defaults: {
+    critical: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    high: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N",
+    medium: "CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:L/I:L/A:N",
+    low: "CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N",
+    info: null,
+  },
+};
+
+/**
+ * Every published scoring model by version
+ */
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+  [MODEL_2026_1.version]: MODEL_2026_1,
+};
+
+/**
+ * Version new findings are scored with
+ */
+export const CURRENT_SCORING_VERSION = MODEL_2026_1.version;
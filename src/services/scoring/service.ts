@@ -0,0 +1,85 @@
+import { CURRENT_SCORING_VERSION, SCORING_MODELS } from "./models";
+import type {
+  FindingScore,
+  ScoringInput,
+  ScoringModel,
+  SeverityOverride,
+  Severity,
+} from "./types";
+import {
+  adjustForConfidence,
+  calculateBaseScore,
+  parseCvssVector,
+  severityFromScore,
+} from "./utils";
+import { logger } from "@/logger";
+
+/**
+ * Scores findings with CVSS v3.1 using a versioned vector table, then applies
+ * the project's severity overrides
+ */
+export class RiskScorer {
+  private model: ScoringModel;
+  private overrides: Map<string, Severity>;
+
+  /**
+   * @param overrides - Severities the project assigns per plugin or template
+   * @param version - Scoring model version, the current one by default
+   * @throws {Error} If the version is unknown
+   */
+  constructor(
+    overrides: SeverityOverride[] = [],
+    version: string = CURRENT_SCORING_VERSION
+  ) {
+    const model = SCORING_MODELS[version];
+    if (!model) {
+      throw new Error(`Unknown scoring model version: ${version}`);
+    }
+    this.model = model;
+    this.overrides = new Map(
+      overrides.map((override) => [override.pluginId, override.severity])
+    );
+  }
+
+  /**
+   * Scores one finding
+   */
+  score(input: ScoringInput): FindingScore {
+    const vector = this.findVector(input);
+    const metrics = vector ? parseCvssVector(vector) : null;
+    if (vector && !metrics) {
+      logger.warn("Ignoring invalid CVSS vector", {
+        pluginId: input.pluginId,
+        vector,
+      });
+    }
+
+    const cvssScore = metrics ? calculateBaseScore(metrics) : 0;
+    const scoredSeverity = metrics
+      ? severityFromScore(cvssScore)
+      : vector === null
+      ? "info"
+      : input.engineSeverity;
+    return {
+      severity: this.overrides.get(input.pluginId) ?? scoredSeverity,
+      cvssVector: metrics ? vector : null,
+      cvssScore,
+      riskScore: adjustForConfidence(cvssScore, input.confidence),
+      scoringVersion: this.model.version,
+    };
+  }
+
+  /**
+   * Picks the vector from the table, then the template, then the default for
+   * the engine severity
+   */
+  private findVector(input: ScoringInput): string | null {
+    const table =
+      input.engine === "zap"
+        ? this.model.zapPlugins
+        : this.model.nucleiTemplates;
+    if (input.pluginId in table) return table[input.pluginId] ?? null;
+    if (input.templateVector) return input.templateVector;
+    return this.model.defaults[input.engineSeverity];
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Severity levels findings are reported with
+ */
+export type Severity = "critical" | "high" | "medium" | "low" | "info";
+
+/**
+ * Confidence levels findings are reported with
+ */
+export type Confidence = "confirmed" | "high" | "medium" | "low";
+
+/**
+ * Parsed CVSS v3.1 base metrics
+ */
+export interface CvssBaseMetrics {
+  AV: "N" | "A" | "L" | "P";
+  AC: "L" | "H";
+  PR: "N" | "L" | "H";
+  UI: "N" | "R";
+  S: "U" | "C";
+  C: "H" | "L" | "N";
+  I: "H" | "L" | "N";
+  A: "H" | "L" | "N";
+}
+
+/**
+ * Vector table of one scoring model version. A null vector marks a purely
+ * informational finding.
+ */
+export interface ScoringModel {
+  /** Recorded on every scored finding so the score can be reproduced */
+  version: string;
+  /** CVSS vectors per ZAP plugin ID */
+  zapPlugins: Record<string, string | null>;
+  /** CVSS vectors per Nuclei template ID */
+  nucleiTemplates: Record<string, string | null>;
+  /** Vectors used when neither the table nor the template has one */
+  defaults: Record<Severity, string | null>;
+}
+
+/**
+ * What the scorer knows about a finding
+ */
+export interface ScoringInput {
+  engine: "zap" | "nuclei";
+  /** ZAP plugin ID or Nuclei template ID */
+  pluginId: string;
+  /** Severity reported by the engine */
+  engineSeverity: Severity;
+  confidence: Confidence;
+  /** Vector shipped with the Nuclei template, if any */
+  templateVector?: string;
+}
+
+/**
+ * Severity a project assigns to every finding of a plugin or template
+ */
+export interface SeverityOverride {
+  pluginId: string;
+  severity: Severity;
+}
+
+/**
+ * Score of one finding
+ */
+export interface FindingScore {
+  severity: Severity;
+  /** CVSS v3.1 vector the score was computed from */
+  cvssVector: string | null;
+  /** CVSS v3.1 base score */
+  cvssScore: number;
+  /** Base score adjusted for the confidence in the finding */
+  riskScore: number;
+  scoringVersion: string;
+}
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateBaseScore, parseCvssVector, roundUp } from "./utils";
+
+/**
+ * Scores a vector, failing the test if it does not parse
+ */
+function score(vector: string): number {
+  const metrics = parseCvssVector(vector);
+  assert.ok(metrics, `${vector} should parse`);
+  return calculateBaseScore(metrics);
+}
+
+test("scores scope-unchanged vectors as NVD does", () => {
+  const vectors: [string, number][] = [
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H", 9.8],
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:H", 7.5],
+    ["CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H", 7.8],
+    ["CVSS:3.1/AV:A/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N", 6.5],
+    ["CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:N/A:N", 5.9],
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N", 5.3],
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N", 0],
+  ];
+
+  for (const [vector, expected] of vectors) {
+    assert.equal(score(vector), expected, vector);
+  }
+});
+
+test("scores scope-changed vectors as NVD does", () => {
+  const vectors: [string, number][] = [
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H", 10],
+    ["CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H", 9.9],
+    ["CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N", 6.1],
+    ["CVSS:3.1/AV:N/AC:L/PR:H/UI:R/S:C/C:L/I:L/A:N", 4.8],
+    ["CVSS:3.0/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N", 6.1],
+  ];
+
+  for (const [vector, expected] of vectors) {
+    assert.equal(score(vector), expected, vector);
+  }
+});
+
+test("rounds up to one decimal without floating point artefacts", () => {
+  assert.equal(roundUp(4.05), 4.1);
+  assert.equal(roundUp(4.02), 4.1);
+  assert.equal(roundUp(4), 4);
+  assert.equal(roundUp(4.000000000000001), 4);
+  assert.equal(roundUp(0.1 * 3), 0.3);
+});
+
+test("rejects vectors with missing or unknown metric values", () => {
+  for (const vector of [
+    "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H",
+    "CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+    "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:toString",
+    "CVSS:2.0/AV:N/AC:L/Au:N/C:P/I:P/A:P",
+    "AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+  ]) {
+    assert.equal(parseCvssVector(vector), null, vector);
+  }
+});
+
+test("keeps only the base metrics of a vector", () => {
+  assert.deepEqual(
+    parseCvssVector("CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P/RL:O"),
+    { AV: "N", AC: "L", PR: "N", UI: "N", S: "U", C: "H", I: "H", A: "H" }
+  );
+});
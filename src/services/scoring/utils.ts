@@ -0,0 +1,139 @@
+import type { Confidence, CvssBaseMetrics, Severity } from "./types";
+
+/** v3.0 vectors use the same base metrics, so they are scored as v3.1 */
+const CVSS_PREFIX = /^CVSS:3\.[01]\//;
+
+const WEIGHTS = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  CIA: { H: 0.56, L: 0.22, N: 0 },
+} as const;
+
+/** Privileges Required weights, which depend on the scope */
+const PR_WEIGHTS = {
+  U: { N: 0.85, L: 0.62, H: 0.27 },
+  C: { N: 0.85, L: 0.68, H: 0.5 },
+} as const;
+
+/** Report Confidence multipliers applied per confidence level */
+const REPORT_CONFIDENCE: Record<Confidence, number> = {
+  confirmed: 1,
+  high: 1,
+  medium: 0.96,
+  low: 0.92,
+};
+
+/** Values each base metric may take */
+const METRIC_VALUES: {
+  [Name in keyof CvssBaseMetrics]: readonly CvssBaseMetrics[Name][];
+} = {
+  AV: ["N", "A", "L", "P"],
+  AC: ["L", "H"],
+  PR: ["N", "L", "H"],
+  UI: ["N", "R"],
+  S: ["U", "C"],
+  C: ["H", "L", "N"],
+  I: ["H", "L", "N"],
+  A: ["H", "L", "N"],
+};
+
+/**
+ * Whether a value parsed from a vector is valid for a base metric
+ */
+function isMetricValue<Name extends keyof CvssBaseMetrics>(
+  name: Name,
+  value: string | undefined
+): value is CvssBaseMetrics[Name] {
+  return (METRIC_VALUES[name] as readonly string[]).includes(value ?? "");
+}
+
+/**
+ * Rounds up to one decimal as defined by CVSS v3.1, avoiding floating point
+ * artefacts such as 4.000000000000001 becoming 4.1
+ * @see https://www.first.org/cvss/v3.1/specification-document#Appendix-A---Floating-Point-Rounding
+ */
+export function roundUp(value: number): number {
+  const intInput = Math.round(value * 100000);
+  if (intInput % 10000 === 0) return intInput / 100000;
+  return (Math.floor(intInput / 10000) + 1) / 10;
+}
+
+/**
+ * Parses a CVSS v3 vector string
+ * @returns The base metrics, or null if the vector is not a valid v3 vector
+ */
+export function parseCvssVector(vector: string): CvssBaseMetrics | null {
+  if (!CVSS_PREFIX.test(vector)) return null;
+
+  const metrics: Partial<Record<string, string>> = {};
+  for (const part of vector.replace(CVSS_PREFIX, "").split("/")) {
+    const [name, value] = part.split(":");
+    if (name && value) metrics[name] = value;
+  }
+
+  const { AV, AC, PR, UI, S, C, I, A } = metrics;
+  if (
+    isMetricValue("AV", AV) &&
+    isMetricValue("AC", AC) &&
+    isMetricValue("PR", PR) &&
+    isMetricValue("UI", UI) &&
+    isMetricValue("S", S) &&
+    isMetricValue("C", C) &&
+    isMetricValue("I", I) &&
+    isMetricValue("A", A)
+  ) {
+    return { AV, AC, PR, UI, S, C, I, A };
+  }
+  return null;
+}
+
+/**
+ * Computes the CVSS v3.1 base score of a set of base metrics
+ * @see https://www.first.org/cvss/v3.1/specification-document#7-1-Base-Metrics-Equations
+ */
+export function calculateBaseScore(metrics: CvssBaseMetrics): number {
+  const iss =
+    1 -
+    (1 - WEIGHTS.CIA[metrics.C]) *
+      (1 - WEIGHTS.CIA[metrics.I]) *
+      (1 - WEIGHTS.CIA[metrics.A]);
+  const impact =
+    metrics.S === "U"
+      ? 6.42 * iss
+      : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  const exploitability =
+    8.22 *
+    WEIGHTS.AV[metrics.AV] *
+    WEIGHTS.AC[metrics.AC] *
+    PR_WEIGHTS[metrics.S][metrics.PR] *
+    WEIGHTS.UI[metrics.UI];
+
+  if (impact <= 0) return 0;
+  return metrics.S === "U"
+    ? roundUp(Math.min(impact + exploitability, 10))
+    : roundUp(Math.min(1.08 * (impact + exploitability), 10));
+}
+
+/**
+ * Adjusts a base score for the confidence in a finding using the CVSS Report
+ * Confidence metric, leaving the other temporal metrics undefined
+ */
+export function adjustForConfidence(
+  baseScore: number,
+  confidence: Confidence
+): number {
+  return roundUp(baseScore * REPORT_CONFIDENCE[confidence]);
+}
+
+/**
+ * Maps a CVSS score to its qualitative severity rating, reporting "None" as
+ * info
+ */
+export function severityFromScore(score: number): Severity {
+  if (score >= 9) return "critical";
+  if (score >= 7) return "high";
+  if (score >= 4) return "medium";
+  if (score > 0) return "low";
+  return "info";
+}
@@ -0,0 +1,8 @@
+import type { TargetValidationErrorCode } from "./types";
+
+export class TargetValidationError extends Error {
+  constructor(message: string, public code: TargetValidationErrorCode) {
+    super(message);
+    this.name = "TargetValidationError";
+  }
+}
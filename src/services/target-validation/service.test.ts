@@ -0,0 +1,175 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TargetValidator } from "./service";
+import { TargetValidationError } from "./exceptions";
+import type { TargetValidationErrorCode } from "./types";
+
+const PUBLIC_ADDRESS = "93.184.216.34";
+
+/**
+ * Builds a validator whose DNS answers from a mutable table
+ */
+function validatorWith(
+  records: Record<string, string[]>,
+  allowlist: string[] = []
+): TargetValidator {
+  return new TargetValidator({
+    allowlist,
+    resolve: async (hostname) => {
+      const addresses = records[hostname];
+      if (!addresses) throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      return addresses;
+    },
+  });
+}
+
+/**
+ * Asserts that validating a URL fails with the given error code
+ */
+async function assertRejected(
+  validator: TargetValidator,
+  url: string,
+  code: TargetValidationErrorCode
+): Promise<void> {
+  await assert.rejects(
+    validator.validate(url),
+    (error) => error instanceof TargetValidationError && error.code === code,
+    `${url} should be rejected with ${code}`
+  );
+}
+
+test("rejects hosts resolving to internal IPv4 ranges", async () => {
+  const addresses = {
+    "loopback.test": "127.0.0.1",
+    "link-local.test": "169.254.10.1",
+    "metadata.test": "169.254.169.254",
+    "ten.test": "10.1.2.3",
+    "one-seven-two.test": "172.20.0.1",
+    "one-nine-two.test": "192.168.1.1",
+  };
+  const validator = validatorWith(
+    Object.fromEntries(
+      Object.entries(addresses).map(([host, address]) => [host, [address]])
+    )
+  );
+
+  for (const host of Object.keys(addresses)) {
+    await assertRejected(
+      validator,
+      `https://${host}/`,
+      "target_blocked_address"
+    );
+  }
+});
+
+test("rejects internal IP literals", async () => {
+  const validator = validatorWith({});
+
+  for (const url of [
+    "http://127.0.0.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://192.168.0.10:8080/",
+    "http://[::1]/",
+    "http://[fd12:3456::1]/",
+    "http://[fe80::1]/",
+    "http://[::ffff:127.0.0.1]/",
+  ]) {
+    await assertRejected(validator, url, "target_blocked_address");
+  }
+});
+
+test("rejects hosts resolving to IPv6 ULA, link-local or mapped loopback", async () => {
+  const validator = validatorWith({
+    "ula.test": ["fd00::1"],
+    "link-local.test": ["fe80::abcd"],
+    "mapped.test": ["::ffff:127.0.0.1"],
+  });
+
+  for (const host of ["ula.test", "link-local.test", "mapped.test"]) {
+    await assertRejected(
+      validator,
+      `https://${host}/`,
+      "target_blocked_address"
+    );
+  }
+});
+
+test("rejects a host if any of its addresses is internal", async () => {
+  const validator = validatorWith({
+    "mixed.test": [PUBLIC_ADDRESS, "10.0.0.1"],
+  });
+
+  await assertRejected(
+    validator,
+    "https://mixed.test/",
+    "target_blocked_address"
+  );
+});
+
+test("accepts public hosts with the addresses they resolved to", async () => {
+  const validator = validatorWith({ "example.com": [PUBLIC_ADDRESS] });
+
+  assert.deepEqual(await validator.validate("https://example.com/path"), {
+    url: "https://example.com/path",
+    hostname: "example.com",
+    addresses: [PUBLIC_ADDRESS],
+  });
+});
+
+test("lets the allowlist override blocked ranges", async () => {
+  const validator = validatorWith(
+    {
+      "staging.internal": ["10.0.5.5"],
+      "other.internal": ["10.0.6.6"],
+      "db.internal": ["192.168.1.1"],
+    },
+    ["staging.internal", "10.0.6.0/24"]
+  );
+
+  assert.deepEqual(
+    (await validator.validate("https://staging.internal/")).addresses,
+    []
+  );
+  assert.deepEqual(
+    (await validator.validate("https://other.internal/")).addresses,
+    ["10.0.6.6"]
+  );
+  await assertRejected(
+    validator,
+    "https://db.internal/",
+    "target_blocked_address"
+  );
+});
+
+test("reports a host that starts resolving internally as DNS rebinding", async () => {
+  const records: Record<string, string[]> = {
+    "rebind.test": [PUBLIC_ADDRESS],
+  };
+  const validator = validatorWith(records);
+
+  await validator.validate("https://rebind.test/");
+  records["rebind.test"] = ["127.0.0.1"];
+
+  await assertRejected(
+    validator,
+    "https://rebind.test/login",
+    "target_dns_rebinding"
+  );
+});
+
+test("rejects unresolvable hosts and unsupported URLs", async () => {
+  const validator = validatorWith({ "empty.test": [] });
+
+  await assertRejected(
+    validator,
+    "https://missing.test/",
+    "target_unresolvable"
+  );
+  await assertRejected(validator, "https://empty.test/", "target_unresolvable");
+  await assertRejected(
+    validator,
+    "ftp://example.com/",
+    "target_unsupported_protocol"
+  );
+  await assertRejected(validator, "not a url", "target_invalid_url");
+});
@@ -0,0 +1,174 @@
+import { promises as dns } from "dns";
+import { env } from "@/env.mjs";
+import { logger } from "@/logger";
+import { TargetValidationError } from "./exceptions";
+import type {
+  HostnameResolver,
+  TargetValidatorConfig,
+  ValidatedTarget,
+} from "./types";
+import {
+  addressType,
+  blockedUrlRegexes,
+  isBlockedAddress,
+  parseAllowlist,
+} from "./utils";
+
+/** How long a passed hostname is remembered to recognise DNS rebinding */
+const REBINDING_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Resolves a hostname with the system resolver
+ */
+const systemResolver: HostnameResolver = async (hostname) => {
+  const results = await dns.lookup(hostname, { all: true, verbatim: true });
+  return results.map((result) => result.address);
+};
+
+/**
+ * Guards the scanner against being pointed at internal networks. Every engine
+ * validates its targets right before sending requests, so a hostname that
+ * resolves somewhere else since the last check is caught at time of use.
+ */
+export class TargetValidator {
+  private allowlistEntries: string[];
+  private allowlist: ReturnType<typeof parseAllowlist>;
+  private resolve: HostnameResolver;
+  private passedHostnames = new Map<string, number>();
+
+  constructor(config: TargetValidatorConfig = {}) {
+    this.allowlistEntries =
+      config.allowlist ?? env.SCAN_TARGET_ALLOWLIST?.split(",") ?? [];
+    this.allowlist = parseAllowlist(this.allowlistEntries);
+    this.resolve = config.resolve ?? systemResolver;
+  }
+
+  /**
+   * Regexes of URLs addressing a blocked range by IP, for engines that
+   * follow links on their own to exclude. Allowlisted ranges are left out.
+   */
+  blockedUrlRegexes(): string[] {
+    return blockedUrlRegexes(this.allowlistEntries);
+  }
+
+  /**
+   * Validates a target URL and the addresses its hostname resolves to
+   * @param url - Target URL
+   * @returns The target with its resolved addresses
+   * @throws {TargetValidationError} If the target must not be scanned
+   */
+  async validate(url: string): Promise<ValidatedTarget> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new TargetValidationError(
+        `Invalid target URL: ${url}`,
+        "target_invalid_url"
+      );
+    }
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new TargetValidationError(
+        `Target must use http or https: ${url}`,
+        "target_unsupported_protocol"
+      );
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (this.allowlist.hostnames.has(hostname)) {
+      return { url, hostname, addresses: [] };
+    }
+
+    let addresses: string[];
+    if (addressType(hostname)) {
+      addresses = [hostname];
+    } else {
+      try {
+        addresses = await this.resolve(hostname);
+      } catch (error) {
+        throw new TargetValidationError(
+          `Could not resolve target host ${hostname}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          "target_unresolvable"
+        );
+      }
+      if (addresses.length === 0) {
+        throw new TargetValidationError(
+          `Target host ${hostname} has no addresses`,
+          "target_unresolvable"
+        );
+      }
+    }
+
+    const blocked = addresses.filter((address) => !this.isAllowed(address));
+    if (blocked.length > 0) {
+      const rebinding = this.passedRecently(hostname);
+      logger.warn("Rejected scan target", {
+        url,
+        hostname,
+        blocked,
+        rebinding,
+      });
+      const reason = `resolves to a blocked address (${blocked.join(", ")})`;
+      throw rebinding
+        ? new TargetValidationError(
+            `Target host ${hostname} now ${reason}`,
+            "target_dns_rebinding"
+          )
+        : new TargetValidationError(
+            `Target host ${hostname} ${reason}`,
+            "target_blocked_address"
+          );
+    }
+
+    this.rememberPassed(hostname);
+    return { url, hostname, addresses };
+  }
+
+  /**
+   * Validates several target URLs, resolving each hostname once
+   * @param urls - Target URLs
+   * @throws {TargetValidationError} If any target must not be scanned
+   */
+  async validateAll(urls: string[]): Promise<ValidatedTarget[]> {
+    const byOrigin = new Map<string, Promise<ValidatedTarget>>();
+    return Promise.all(
+      urls.map(async (url) => {
+        let origin: string;
+        try {
+          origin = new URL(url).origin;
+        } catch {
+          return this.validate(url);
+        }
+        if (!byOrigin.has(origin)) byOrigin.set(origin, this.validate(url));
+        const target = await byOrigin.get(origin)!;
+        return { ...target, url };
+      })
+    );
+  }
+
+  private isAllowed(address: string): boolean {
+    const type = addressType(address);
+    if (type && this.allowlist.addresses.check(address, type)) return true;
+    return !isBlockedAddress(address);
+  }
+
+  private passedRecently(hostname: string): boolean {
+    const passedAt = this.passedHostnames.get(hostname);
+    return (
+      passedAt !== undefined && Date.now() - passedAt < REBINDING_WINDOW_MS
+    );
+  }
+
+  private rememberPassed(hostname: string): void {
+    const now = Date.now();
+    for (const [known, passedAt] of this.passedHostnames) {
+      if (now - passedAt >= REBINDING_WINDOW_MS) {
+        this.passedHostnames.delete(known);
+      }
+    }
+    this.passedHostnames.set(hostname, now);
+  }
+}
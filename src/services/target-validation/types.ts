@@ -0,0 +1,39 @@
+/**
+ * Why a target was rejected
+ */
+export type TargetValidationErrorCode =
+  | "target_invalid_url"
+  | "target_unsupported_protocol"
+  | "target_unresolvable"
+  | "target_blocked_address"
+  | "target_dns_rebinding";
+
+/**
+ * Resolves a hostname to all of its IP addresses
+ */
+export type HostnameResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Configuration options for target validation
+ */
+export interface TargetValidatorConfig {
+  /**
+   * Hostnames, IP addresses and CIDR ranges scanned even if they are
+   * internal (default: SCAN_TARGET_ALLOWLIST)
+   */
+  allowlist?: string[];
+  /** Resolver used for hostnames (default: the system resolver) */
+  resolve?: HostnameResolver;
+}
+
+/**
+ * Target whose addresses were checked
+ */
+export interface ValidatedTarget {
+  /** URL as given */
+  url: string;
+  /** Hostname without IPv6 brackets */
+  hostname: string;
+  /** Addresses the hostname resolved to */
+  addresses: string[];
+}
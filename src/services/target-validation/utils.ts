@@ -0,0 +1,192 @@
+import { BlockList, isIP } from "net";
+import type { AxiosRequestConfig } from "axios";
+import type { ValidatedTarget } from "./types";
+
+/**
+ * Ranges that must never be scanned: loopback, private, link-local (which
+ * holds cloud metadata endpoints), carrier-grade NAT, multicast and reserved
+ */
+const BLOCKED_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["100::", 64, "ipv6"],
+  ["2001:db8::", 32, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["fec0::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockedRanges = new BlockList();
+for (const [network, prefix, type] of BLOCKED_RANGES) {
+  blockedRanges.addSubnet(network, prefix, type);
+}
+
+/**
+ * Host patterns of IP-literal URLs in each blocked range, for engines that
+ * follow links themselves and only take regexes
+ */
+const BLOCKED_HOST_PATTERNS: Array<[string, number, string]> = [
+  ["0.0.0.0", 8, "0\\.\\d+\\.\\d+\\.\\d+"],
+  ["10.0.0.0", 8, "10\\.\\d+\\.\\d+\\.\\d+"],
+  [
+    "100.64.0.0",
+    10,
+    "100\\.(?:6[4-9]|[7-9]\\d|1[01]\\d|12[0-7])\\.\\d+\\.\\d+",
+  ],
+  ["127.0.0.0", 8, "127\\.\\d+\\.\\d+\\.\\d+"],
+  ["169.254.0.0", 16, "169\\.254\\.\\d+\\.\\d+"],
+  ["172.16.0.0", 12, "172\\.(?:1[6-9]|2\\d|3[01])\\.\\d+\\.\\d+"],
+  ["192.0.0.0", 24, "192\\.0\\.0\\.\\d+"],
+  ["192.0.2.0", 24, "192\\.0\\.2\\.\\d+"],
+  ["192.168.0.0", 16, "192\\.168\\.\\d+\\.\\d+"],
+  ["198.18.0.0", 15, "198\\.1[89]\\.\\d+\\.\\d+"],
+  ["198.51.100.0", 24, "198\\.51\\.100\\.\\d+"],
+  ["203.0.113.0", 24, "203\\.0\\.113\\.\\d+"],
+  ["224.0.0.0", 4, "(?:22[4-9]|23\\d)\\.\\d+\\.\\d+\\.\\d+"],
+  ["240.0.0.0", 4, "(?:24\\d|25[0-5])\\.\\d+\\.\\d+\\.\\d+"],
+  // Also covers IPv4-mapped and IPv4-compatible addresses
+  ["::", 96, "\\[::[^\\]]*\\]"],
+  ["100::", 64, "\\[100::[^\\]]*\\]"],
+  ["2001:db8::", 32, "\\[2001:0?[dD][bB]8:[^\\]]*\\]"],
+  ["fc00::", 7, "\\[[fF][cCdD][0-9a-fA-F]{0,2}:[^\\]]*\\]"],
+  ["fe80::", 10, "\\[[fF][eE][89aAbB][0-9a-fA-F]:[^\\]]*\\]"],
+  ["fec0::", 10, "\\[[fF][eE][c-fC-F][0-9a-fA-F]:[^\\]]*\\]"],
+  ["ff00::", 8, "\\[[fF][fF][0-9a-fA-F]{0,2}:[^\\]]*\\]"],
+];
+
+/**
+ * Host patterns of IPv4 addresses written in forms other than four decimal
+ * parts (such as 2130706433, 127.1 or 0x7f.0.0.1), and of NAT64 addresses,
+ * which resolvers turn into addresses that cannot be told from the URL
+ */
+const OBFUSCATED_HOST_PATTERNS = [
+  "(?:0[xX][0-9a-fA-F]+|\\d+)(?:\\.(?:0[xX][0-9a-fA-F]+|\\d+)){0,2}",
+  "(?:[0-9a-fA-FxX]+\\.){0,3}(?:0\\d+|0[xX][0-9a-fA-F]+)(?:\\.(?:0[xX][0-9a-fA-F]+|\\d+))*",
+  "\\[64:[fF][fF]9[bB]::[^\\]]*\\]",
+];
+
+/**
+ * Returns the IPv4 address embedded in an IPv4-mapped, IPv4-compatible or
+ * NAT64 IPv6 address, so it is checked against the IPv4 ranges
+ */
+function embeddedIpv4(address: string): string | null {
+  const match = address
+    .toLowerCase()
+    .match(/^(?:::ffff:|::|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (match) return match[1]!;
+
+  const hexMatch = address
+    .toLowerCase()
+    .match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hexMatch) return null;
+  const high = parseInt(hexMatch[1]!, 16);
+  const low = parseInt(hexMatch[2]!, 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * Gets the BlockList type of an IP address
+ */
+export function addressType(address: string): "ipv4" | "ipv6" | null {
+  const family = isIP(address);
+  return family === 4 ? "ipv4" : family === 6 ? "ipv6" : null;
+}
+
+/**
+ * Checks whether an address is in a range that must never be scanned
+ */
+export function isBlockedAddress(address: string): boolean {
+  const type = addressType(address);
+  if (!type) return true;
+
+  if (type === "ipv6") {
+    const ipv4 = embeddedIpv4(address);
+    if (ipv4) return blockedRanges.check(ipv4, "ipv4");
+  }
+  return blockedRanges.check(address, type);
+}
+
+/**
+ * Builds regexes matching URLs whose host is an IP literal in a blocked
+ * range, matched against the whole URL as the scope regexes are
+ * @param allowlist - Entries whose ranges are left out
+ */
+export function blockedUrlRegexes(allowlist: string[]): string[] {
+  const allowed = allowlist
+    .map((entry) => entry.trim().split("/")[0]!)
+    .filter((network) => addressType(network));
+
+  const hostPatterns = [
+    ...BLOCKED_HOST_PATTERNS.filter(([network, prefix]) => {
+      const type = addressType(network)!;
+      const range = new BlockList();
+      range.addSubnet(network, prefix, type);
+      return !allowed.some((address) =>
+        range.check(address, addressType(address)!)
+      );
+    }).map(([, , pattern]) => pattern),
+    ...OBFUSCATED_HOST_PATTERNS,
+  ];
+  return hostPatterns.map(
+    (host) => `https?://(?:[^/?#@]*@)?${host}(?::\\d+)?(?:[/?#].*)?`
+  );
+}
+
+/**
+ * Builds a DNS lookup for HTTP clients that answers with the addresses a
+ * target was validated against, so a hostname rebound to an internal address
+ * after validation is never connected to
+ * @returns The lookup, or undefined for allowlisted hosts, which were not
+ * resolved
+ */
+export function pinnedLookup(
+  target: ValidatedTarget
+): AxiosRequestConfig["lookup"] {
+  if (target.addresses.length === 0) return undefined;
+  const entries = target.addresses.map((address) => ({
+    address,
+    family: addressType(address) === "ipv6" ? (6 as const) : (4 as const),
+  }));
+  return async () => [entries];
+}
+
+/**
+ * Splits allowlist entries into hostnames and a list of allowed addresses
+ * @param entries - Hostnames, IP addresses or CIDR ranges
+ */
+export function parseAllowlist(entries: string[]): {
+  hostnames: Set<string>;
+  addresses: BlockList;
+} {
+  const hostnames = new Set<string>();
+  const addresses = new BlockList();
+
+  for (const entry of entries.map((value) => value.trim()).filter(Boolean)) {
+    const [network, prefix] = entry.split("/");
+    const type = addressType(network!);
+    if (!type) {
+      hostnames.add(entry.toLowerCase());
+    } else if (prefix !== undefined) {
+      addresses.addSubnet(network!, Number(prefix), type);
+    } else {
+      addresses.addAddress(network!, type);
+    }
+  }
+
+  return { hostnames, addresses };
+}
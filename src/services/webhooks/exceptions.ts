@@ -0,0 +1,6 @@
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public statusCode: number | null = null) {
+    super(message);
+    this.name = "WebhookDeliveryError";
+  }
+}
@@ -0,0 +1,107 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { logger } from "@/logger";
+import { TargetValidator } from "@/services/target-validation/service";
+import { pinnedLookup } from "@/services/target-validation/utils";
+import { WebhookDeliveryError } from "./exceptions";
+import type { WebhookRequest, WebhookSenderConfig } from "./types";
+
+/**
+ * Default configuration values for deliveries
+ */
+const DEFAULT_CONFIG = {
+  timeout: 10000,
+} as const;
+
+export const WEBHOOK_HEADERS = {
+  id: "X-Webhook-Id",
+  event: "X-Webhook-Event",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC-SHA256 of
+ * "<timestamp>.<body>" with their secret, compare it in constant time and
+ * reject timestamps a few minutes old to stop replays.
+ * @param secret - Subscription secret
+ * @param timestamp - Unix time in seconds sent with the request
+ * @param body - Raw JSON body
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+/**
+ * Service for posting signed event notifications to project endpoints
+ */
+export class WebhookSender {
+  private timeout: number;
+  private targetValidator = new TargetValidator();
+
+  constructor(config: WebhookSenderConfig = {}) {
+    this.timeout = config.timeout ?? DEFAULT_CONFIG.timeout;
+  }
+
+  /**
+   * Sends one delivery attempt, signed with the current time
+   * @returns The response status code
+   * @throws {TargetValidationError} If the endpoint is on an internal network
+   * @throws {WebhookDeliveryError} If the endpoint is unreachable or does not
+   * answer with a 2xx status
+   */
+  async send(request: WebhookRequest): Promise<number> {
+    // Endpoints are checked like scan targets, right before each attempt,
+    // and only the addresses that passed are connected to
+    const target = await this.targetValidator.validate(request.url);
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number;
+    try {
+      const response = await axios.post(request.url, request.body, {
+        timeout: this.timeout,
+        maxRedirects: 0,
+        lookup: pinnedLookup(target),
+        validateStatus: () => true,
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_HEADERS.id]: request.deliveryId,
+          [WEBHOOK_HEADERS.event]: request.event,
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.signature]: signWebhook(
+            request.secret,
+            timestamp,
+            request.body
+          ),
+        },
+      });
+      statusCode = response.status;
+    } catch (error) {
+      throw new WebhookDeliveryError(
+        `Webhook endpoint unreachable: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    if (statusCode < 200 || statusCode >= 300) {
+      throw new WebhookDeliveryError(
+        `Webhook endpoint responded with status ${statusCode}`,
+        statusCode
+      );
+    }
+
+    logger.debug("Delivered webhook", {
+      deliveryId: request.deliveryId,
+      event: request.event,
+      statusCode,
+    });
+    return statusCode;
+  }
+}
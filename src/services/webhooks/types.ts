@@ -0,0 +1,26 @@
+import { webhookEventEnum } from "@/db/schema";
+
+export type WebhookEvent = (typeof webhookEventEnum.enumValues)[number];
+
+/**
+ * Configuration options for sending webhooks
+ */
+export interface WebhookSenderConfig {
+  /** Timeout for one delivery attempt in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * A signed request to one subscription's endpoint
+ */
+export interface WebhookRequest {
+  /** Endpoint URL */
+  url: string;
+  /** Key the signature is computed with */
+  secret: string;
+  event: WebhookEvent;
+  /** Identifies the delivery across retries, so receivers can drop duplicates */
+  deliveryId: string;
+  /** JSON body, signed as sent */
+  body: string;
+}
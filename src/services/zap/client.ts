@@ -1,12 +1,14 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { env } from "@/env.mjs";
+import { zapApiDuration } from "@/metrics";
 
 /**
  * Configuration options for the ZAP client
  */
 export interface ZapConfig {
-  /** The proxy URL where ZAP is listening (default: http://127.0.0.1:8080) */
+  /** The proxy URL where ZAP is listening (default: ZAP_API_URL) */
   proxyUrl?: string;
-  /** The API key if required (default: none) */
+  /** The API key if required (default: ZAP_API_KEY) */
   apiKey?: string;
 }
 
@@ -19,12 +21,47 @@ export class ZapScanner {
   private client: AxiosInstance;
 
   constructor(config: ZapConfig = {}) {
-    this.baseUrl = config.proxyUrl || "http://127.0.0.1:8080";
-    this.apiKey = config.apiKey || "";
+    this.baseUrl = config.proxyUrl || env.ZAP_API_URL;
+    this.apiKey = config.apiKey || env.ZAP_API_KEY || "";
 
     this.client = axios.create({
       baseURL: this.baseUrl,
     });
+
+    const startedAt = new WeakMap<InternalAxiosRequestConfig, number>();
+    this.client.interceptors.request.use((config) => {
+      startedAt.set(config, performance.now());
+      return config;
+    });
+    this.client.interceptors.response.use(
+      (response) => {
+        this.recordLatency(startedAt, response.config, "success");
+        return response;
+      },
+      (error) => {
+        if (axios.isAxiosError(error) && error.config) {
+          this.recordLatency(startedAt, error.config, "error");
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Records how long an API call took, labelled by its path without the key
+   */
+  private recordLatency(
+    startedAt: WeakMap<InternalAxiosRequestConfig, number>,
+    config: InternalAxiosRequestConfig,
+    outcome: "success" | "error"
+  ): void {
+    const start = startedAt.get(config);
+    if (start === undefined) return;
+    const endpoint = (config.url ?? "").split("/").slice(2, 5).join("/");
+    zapApiDuration.observe((performance.now() - start) / 1000, {
+      endpoint,
+      outcome,
+    });
   }
 
   private getApiPath(
@@ -40,12 +77,17 @@ export class ZapScanner {
   /**
    * Create a new context
    * @param contextName Name for the new context
+   * @returns The ID of the new context
    */
-  async createContext(contextName: string): Promise<void> {
+  async createContext(contextName: string): Promise<string> {
     try {
-      await this.client.get(this.getApiPath("context", "newContext"), {
-        params: { contextName },
-      });
+      const response = await this.client.get(
+        this.getApiPath("context", "newContext"),
+        {
+          params: { contextName },
+        }
+      );
+      return response.data.contextId;
     } catch (error) {
       console.error("Failed to create ZAP context:", error);
       throw error;
@@ -60,10 +102,7 @@ export class ZapScanner {
   async includeInContext(contextName: string, regex: string): Promise<void> {
     try {
       await this.client.get(this.getApiPath("context", "includeInContext"), {
-        params: {
-          contextName,
-          regex: this.escapeUrlForContext(regex),
-        },
+        params: { contextName, regex },
       });
     } catch (error) {
       console.error("Failed to include URL in ZAP context:", error);
@@ -71,6 +110,22 @@ export class ZapScanner {
     }
   }
 
+  /**
+   * Exclude a URL pattern from a context
+   * @param contextName Name of the context
+   * @param regex Regular expression to match URLs
+   */
+  async excludeFromContext(contextName: string, regex: string): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("context", "excludeFromContext"), {
+        params: { contextName, regex },
+      });
+    } catch (error) {
+      console.error("Failed to exclude URL from ZAP context:", error);
+      throw error;
+    }
+  }
+
   /**
    * Remove a context
    * @param contextName Name of the context to remove
@@ -87,12 +142,258 @@ export class ZapScanner {
   }
 
   /**
-   * Escape a URL pattern for use in context inclusion
-   * @param url URL or pattern to escape
+   * Get the ID of an existing context
+   * @param contextName Name of the context
+   * @returns The ID of the context
+   */
+  async getContextId(contextName: string): Promise<string> {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("context", "context", true),
+        {
+          params: { contextName },
+        }
+      );
+      return response.data.context.id;
+    } catch (error) {
+      console.error("Failed to get ZAP context:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the authentication method of a context
+   * @param contextId ID of the context
+   * @param authMethodName Name of the ZAP authentication method
+   * @param authMethodConfigParams URL-encoded method configuration
+   */
+  async setAuthenticationMethod(
+    contextId: string,
+    authMethodName: string,
+    authMethodConfigParams?: string
+  ): Promise<void> {
+    try {
+      await this.client.get(
+        this.getApiPath("authentication", "setAuthenticationMethod"),
+        {
+          params: { contextId, authMethodName, authMethodConfigParams },
+        }
+      );
+    } catch (error) {
+      // Config params can hold credentials, so only the message is logged
+      console.error(
+        "Failed to set ZAP authentication method:",
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Set the regex identifying authenticated responses
+   * @param contextId ID of the context
+   * @param loggedInIndicatorRegex Regex matched against responses
+   */
+  async setLoggedInIndicator(
+    contextId: string,
+    loggedInIndicatorRegex: string
+  ): Promise<void> {
+    try {
+      await this.client.get(
+        this.getApiPath("authentication", "setLoggedInIndicator"),
+        {
+          params: { contextId, loggedInIndicatorRegex },
+        }
+      );
+    } catch (error) {
+      console.error("Failed to set ZAP logged in indicator:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the regex identifying unauthenticated responses
+   * @param contextId ID of the context
+   * @param loggedOutIndicatorRegex Regex matched against responses
+   */
+  async setLoggedOutIndicator(
+    contextId: string,
+    loggedOutIndicatorRegex: string
+  ): Promise<void> {
+    try {
+      await this.client.get(
+        this.getApiPath("authentication", "setLoggedOutIndicator"),
+        {
+          params: { contextId, loggedOutIndicatorRegex },
+        }
+      );
+    } catch (error) {
+      console.error("Failed to set ZAP logged out indicator:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the session management method of a context
+   * @param contextId ID of the context
+   * @param methodName Name of the ZAP session management method
+   */
+  async setSessionManagementMethod(
+    contextId: string,
+    methodName: string
+  ): Promise<void> {
+    try {
+      await this.client.get(
+        this.getApiPath("sessionManagement", "setSessionManagementMethod"),
+        {
+          params: { contextId, methodName },
+        }
+      );
+    } catch (error) {
+      console.error("Failed to set ZAP session management method:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new user in a context
+   * @param contextId ID of the context
+   * @param name Name of the user
+   * @returns The ID of the new user
+   */
+  async newUser(contextId: string, name: string): Promise<string> {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("users", "newUser"),
+        {
+          params: { contextId, name },
+        }
+      );
+      return response.data.userId;
+    } catch (error) {
+      console.error("Failed to create ZAP user:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the users of a context
+   * @param contextId ID of the context
+   */
+  async getUsers(
+    contextId: string
+  ): Promise<Array<{ id: string; name: string }>> {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("users", "usersList", true),
+        {
+          params: { contextId },
+        }
+      );
+      return response.data.usersList;
+    } catch (error) {
+      console.error("Failed to list ZAP users:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the credentials a context user authenticates with
+   * @param contextId ID of the context
+   * @param userId ID of the user
+   * @param authCredentialsConfigParams URL-encoded credentials
+   */
+  async setAuthenticationCredentials(
+    contextId: string,
+    userId: string,
+    authCredentialsConfigParams: string
+  ): Promise<void> {
+    try {
+      await this.client.get(
+        this.getApiPath("users", "setAuthenticationCredentials"),
+        {
+          params: { contextId, userId, authCredentialsConfigParams },
+        }
+      );
+    } catch (error) {
+      // Config params hold credentials, so only the message is logged
+      console.error(
+        "Failed to set ZAP user credentials:",
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Enable or disable a context user
+   * @param contextId ID of the context
+   * @param userId ID of the user
+   * @param enabled Whether the user is enabled
    */
-  private escapeUrlForContext(url: string): string {
-    // Convert URL to regex pattern that matches the exact URL and optional trailing slash
-    return `^${url.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/?$`;
+  async setUserEnabled(
+    contextId: string,
+    userId: string,
+    enabled: boolean
+  ): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("users", "setUserEnabled"), {
+        params: { contextId, userId, enabled },
+      });
+    } catch (error) {
+      console.error("Failed to enable ZAP user:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a replacer rule that sets a request header
+   * @param description Unique description identifying the rule
+   * @param headerName Name of the header to set
+   * @param headerValue Value of the header
+   * @param url Regex restricting the URLs the rule applies to
+   */
+  async addHeaderRule(
+    description: string,
+    headerName: string,
+    headerValue: string,
+    url?: string
+  ): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("replacer", "addRule"), {
+        params: {
+          description,
+          enabled: true,
+          matchType: "REQ_HEADER",
+          matchRegex: false,
+          matchString: headerName,
+          replacement: headerValue,
+          url,
+        },
+      });
+    } catch (error) {
+      // Header values can hold credentials, so only the message is logged
+      console.error(
+        "Failed to add ZAP replacer rule:",
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a replacer rule
+   * @param description Description identifying the rule
+   */
+  async removeRule(description: string): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("replacer", "removeRule"), {
+        params: { description },
+      });
+    } catch (error) {
+      console.error("Failed to remove ZAP replacer rule:", error);
+      throw error;
+    }
   }
 
   /**
@@ -104,6 +405,7 @@ export class ZapScanner {
     url: string,
     options: {
       contextName?: string;
+      contextId?: string;
       userId?: string;
       recurse?: boolean;
       inScopeOnly?: boolean;
@@ -129,6 +431,80 @@ export class ZapScanner {
     }
   }
 
+  /**
+   * Start a new active scan as a context user
+   * @param url The target URL to scan
+   * @param options Additional scan options
+   */
+  async startActiveScanAsUser(
+    url: string,
+    options: {
+      contextId: string;
+      userId: string;
+      recurse?: boolean;
+      scanPolicyName?: string;
+      method?: string;
+      postData?: string;
+    }
+  ) {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("ascan", "scanAsUser"),
+        {
+          params: { url, ...options },
+        }
+      );
+      return response.data.scanAsUser;
+    } catch (error) {
+      console.error("Failed to start ZAP active scan as user:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a rule capping the requests per second every ZAP component sends to
+   * a host. Rules apply to the whole instance.
+   * @param description Unique name of the rule
+   * @param hostname Host the rule applies to
+   * @param requestsPerSecond Rate cap
+   */
+  async addRateLimitRule(
+    description: string,
+    hostname: string,
+    requestsPerSecond: number
+  ): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("network", "addRateLimitRule"), {
+        params: {
+          description,
+          enabled: true,
+          matchRegex: false,
+          matchString: hostname,
+          requestsPerSecond,
+          groupBy: "rule",
+        },
+      });
+    } catch (error) {
+      console.error("Failed to add ZAP rate limit rule:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a rate limit rule
+   * @param description Name of the rule
+   */
+  async removeRateLimitRule(description: string): Promise<void> {
+    try {
+      await this.client.get(this.getApiPath("network", "removeRateLimitRule"), {
+        params: { description },
+      });
+    } catch (error) {
+      console.error("Failed to remove ZAP rate limit rule:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get the status of a running scan
    * @param scanId The ID of the scan to check
@@ -205,6 +581,35 @@ export class ZapScanner {
     }
   }
 
+  /**
+   * Spider a site as a context user
+   * @param url The target URL to spider
+   * @param options Additional spider options
+   */
+  async startSpiderAsUser(
+    url: string,
+    options: {
+      contextId: string;
+      userId: string;
+      maxChildren?: number;
+      recurse?: boolean;
+      subtreeOnly?: boolean;
+    }
+  ) {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("spider", "scanAsUser"),
+        {
+          params: { url, ...options },
+        }
+      );
+      return response.data.scanAsUser;
+    } catch (error) {
+      console.error("Failed to start ZAP spider as user:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get the status of a running spider scan
    * @param spiderId The ID of the spider scan to check
@@ -247,6 +652,163 @@ export class ZapScanner {
     }
   }
 
+  /**
+   * Access a URL through ZAP so it is added to the site tree
+   * @param url The URL to access
+   * @param followRedirects Whether ZAP should follow redirects
+   */
+  async accessUrl(url: string, followRedirects: boolean = false) {
+    try {
+      await this.client.get(this.getApiPath("core", "accessUrl"), {
+        params: { url, followRedirects },
+      });
+    } catch (error) {
+      console.error("Failed to access URL through ZAP:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a raw HTTP request through ZAP so it is added to the site tree
+   * @param request The full HTTP request (request line, headers and body)
+   * @param followRedirects Whether ZAP should follow redirects
+   */
+  async sendRequest(request: string, followRedirects: boolean = false) {
+    try {
+      await this.client.get(this.getApiPath("core", "sendRequest"), {
+        params: { request, followRedirects },
+      });
+    } catch (error) {
+      console.error("Failed to send request through ZAP:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the browser and limits used by the AJAX spider
+   * @param options AJAX spider options to set
+   */
+  async setAjaxSpiderOptions(options: {
+    browserId?: string;
+    maxDuration?: number;
+    maxCrawlDepth?: number;
+    maxCrawlStates?: number;
+  }) {
+    const optionActions = [
+      ["setOptionBrowserId", "String", options.browserId],
+      ["setOptionMaxDuration", "Integer", options.maxDuration],
+      ["setOptionMaxCrawlDepth", "Integer", options.maxCrawlDepth],
+      ["setOptionMaxCrawlStates", "Integer", options.maxCrawlStates],
+    ] as const;
+
+    try {
+      for (const [action, param, value] of optionActions) {
+        if (value === undefined) continue;
+        await this.client.get(this.getApiPath("ajaxSpider", action), {
+          params: { [param]: value },
+        });
+      }
+    } catch (error) {
+      console.error("Failed to set ZAP AJAX spider options:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crawl a site with the AJAX spider, optionally as a context user
+   * @param url The target URL to crawl
+   * @param options Additional AJAX spider options
+   */
+  async startAjaxSpider(
+    url: string,
+    options: {
+      contextName?: string;
+      userName?: string;
+      inScope?: boolean;
+      subtreeOnly?: boolean;
+    } = {}
+  ) {
+    const { userName, ...params } = options;
+
+    try {
+      await this.client.get(
+        this.getApiPath("ajaxSpider", userName ? "scanAsUser" : "scan"),
+        {
+          params: { url, userName, ...params },
+        }
+      );
+    } catch (error) {
+      console.error("Failed to start ZAP AJAX spider:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status of the AJAX spider
+   */
+  async getAjaxSpiderStatus() {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("ajaxSpider", "status", true)
+      );
+      const status = response.data.status;
+      return {
+        status,
+        isComplete: status === "stopped",
+      };
+    } catch (error) {
+      console.error("Failed to get ZAP AJAX spider status:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the results found by the AJAX spider
+   * @param start Index of the first result
+   * @param count Maximum number of results to return
+   */
+  async getAjaxSpiderResults(start?: number, count?: number) {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("ajaxSpider", "results", true),
+        {
+          params: { start, count },
+        }
+      );
+      return response.data.results;
+    } catch (error) {
+      console.error("Failed to get ZAP AJAX spider results:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the number of results found by the AJAX spider
+   */
+  async getAjaxSpiderResultCount(): Promise<number> {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("ajaxSpider", "numberOfResults", true)
+      );
+      return Number(response.data.numberOfResults);
+    } catch (error) {
+      console.error("Failed to get ZAP AJAX spider result count:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the running AJAX spider
+   */
+  async stopAjaxSpider() {
+    try {
+      await this.client.get(this.getApiPath("ajaxSpider", "stop"));
+    } catch (error) {
+      console.error("Failed to stop ZAP AJAX spider:", error);
+      throw error;
+    }
+  }
+
   /**
    * Stop a running scan
    * @param scanId The ID of the scan to stop
@@ -277,6 +839,22 @@ export class ZapScanner {
     }
   }
 
+  /**
+   * Get the version of the ZAP instance, which doubles as a health check
+   */
+  async getVersion(): Promise<string> {
+    try {
+      const response = await this.client.get(
+        this.getApiPath("core", "version", true),
+        { timeout: 5000 }
+      );
+      return response.data.version;
+    } catch (error) {
+      console.error("Failed to get ZAP version:", error);
+      throw error;
+    }
+  }
+
   /**
    * Shutdown the ZAP instance
    */
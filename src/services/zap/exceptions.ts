@@ -0,0 +1,15 @@
+export class ZapPoolExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZapPoolExhaustedError";
+  }
+}
+
+export class ZapUnavailableError extends Error {
+  readonly code = "engine_unavailable";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ZapUnavailableError";
+  }
+}
@@ -0,0 +1,141 @@
+import { ZapUnavailableError } from "./exceptions";
+import type { ZapPool } from "./pool";
+import { logger } from "@/logger";
+
+/**
+ * Default configuration values for the health monitor
+ */
+const DEFAULT_CONFIG = {
+  checkIntervalMs: 10000,
+  readyPollIntervalMs: 2000,
+  readyTimeoutMs: 300000,
+} as const;
+
+/**
+ * Configuration options for a ZAP health monitor
+ */
+export interface ZapHealthMonitorOptions {
+  /** How often the pool is probed once running */
+  checkIntervalMs?: number;
+  /** How often the pool is probed while waiting for readiness */
+  readyPollIntervalMs?: number;
+  /** How long to wait for the first instance to answer */
+  readyTimeoutMs?: number;
+}
+
+/**
+ * Callbacks run when the pool as a whole goes down or comes back
+ */
+export interface ZapAvailabilityHandlers {
+  onUnavailable: () => void | Promise<void>;
+  onRecovered: () => void | Promise<void>;
+}
+
+/**
+ * Watches the ZAP pool so work is only taken on while at least one instance
+ * answers its API
+ */
+export class ZapHealthMonitor {
+  private checkIntervalMs: number;
+  private readyPollIntervalMs: number;
+  private readyTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private available = false;
+
+  /**
+   * @param pool - Pool to watch
+   * @param options - Monitor configuration options
+   */
+  constructor(private pool: ZapPool, options: ZapHealthMonitorOptions = {}) {
+    this.checkIntervalMs =
+      options.checkIntervalMs ?? DEFAULT_CONFIG.checkIntervalMs;
+    this.readyPollIntervalMs =
+      options.readyPollIntervalMs ?? DEFAULT_CONFIG.readyPollIntervalMs;
+    this.readyTimeoutMs =
+      options.readyTimeoutMs ?? DEFAULT_CONFIG.readyTimeoutMs;
+  }
+
+  /**
+   * Polls the pool until an instance answers its API
+   * @throws {ZapUnavailableError} If no instance answers within the timeout
+   */
+  async waitUntilReady(): Promise<void> {
+    const deadline = Date.now() + this.readyTimeoutMs;
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      const reachable = await this.pool.checkHealth();
+      if (reachable > 0) {
+        this.available = true;
+        logger.info("ZAP is ready", {
+          attempts,
+          instances: await this.pool.getStatus(),
+        });
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new ZapUnavailableError(
+          `ZAP did not become ready within ${this.readyTimeoutMs}ms`
+        );
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.readyPollIntervalMs)
+      );
+    }
+  }
+
+  /**
+   * Starts re-checking the pool, calling the handlers when every instance has
+   * been evicted and again when one recovers
+   */
+  start(handlers: ZapAvailabilityHandlers): void {
+    this.stop();
+
+    let checking = false;
+    this.timer = setInterval(async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        await this.pool.checkHealth();
+        const available = this.pool.hasHealthyInstance();
+        if (available === this.available) return;
+
+        this.available = available;
+        if (available) {
+          logger.info("ZAP recovered", {
+            instances: await this.pool.getStatus(),
+          });
+          await handlers.onRecovered();
+        } else {
+          logger.error("ZAP is unavailable", {
+            instances: await this.pool.getStatus(),
+          });
+          await handlers.onUnavailable();
+        }
+      } catch (error) {
+        logger.error("ZAP health check failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      } finally {
+        checking = false;
+      }
+    }, this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops re-checking the pool
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Whether ZAP became ready and an instance was in rotation at the last check
+   */
+  isAvailable(): boolean {
+    return this.available;
+  }
+}
@@ -0,0 +1,342 @@
+import type { Redis } from "ioredis";
+import { ZapScanner } from "./client";
+import type { ZapConfig } from "./client";
+import { ZapPoolExhaustedError } from "./exceptions";
+import { logger } from "@/logger";
+
+/**
+ * Default configuration values for the pool
+ */
+const DEFAULT_CONFIG = {
+  maxLeasesPerInstance: 2,
+  maxFailures: 3,
+  leaseTtlMs: 60000,
+  leaseRenewIntervalMs: 20000,
+} as const;
+
+/**
+ * Takes a lease on an instance unless it is at capacity, dropping expired
+ * leases first. An instance's leases are a hash of lease ID to
+ * "expiresAt:slots", shared by every worker; an exclusive lease takes every
+ * slot. Returns 1 if the lease was taken, 0 if not.
+ */
+const LEASE_SCRIPT = `
+local leaseId = ARGV[1]
+local maxLeases = tonumber(ARGV[2])
+local slots = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+
+local held = 0
+local leases = redis.call("HGETALL", KEYS[1])
+for i = 1, #leases, 2 do
+  local expiresAt, leaseSlots = string.match(leases[i + 1], "^(%d+):(%d+)$")
+  if not expiresAt or tonumber(expiresAt) <= now then
+    redis.call("HDEL", KEYS[1], leases[i])
+  elseif leases[i] ~= leaseId then
+    held = held + tonumber(leaseSlots)
+  end
+end
+
+if held + slots > maxLeases then
+  return 0
+end
+redis.call("HSET", KEYS[1], leaseId, (now + ttl) .. ":" .. slots)
+redis.call("PEXPIRE", KEYS[1], ttl)
+return 1
+`;
+
+/** Extends a lease if it has not expired */
+const RENEW_SCRIPT = `
+local lease = redis.call("HGET", KEYS[1], ARGV[1])
+if not lease then
+  return 0
+end
+local expiresAt, slots = string.match(lease, "^(%d+):(%d+)$")
+if not expiresAt or tonumber(expiresAt) <= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call("HSET", KEYS[1], ARGV[1], (ARGV[2] + ARGV[3]) .. ":" .. slots)
+redis.call("PEXPIRE", KEYS[1], ARGV[3])
+return 1
+`;
+
+/**
+ * Configuration options for a ZAP pool
+ */
+export interface ZapPoolOptions {
+  /** Scans one instance runs at the same time */
+  maxLeasesPerInstance?: number;
+  /** Consecutive failed probes after which an instance is evicted */
+  maxFailures?: number;
+  /** How long a lease lives without being renewed in milliseconds */
+  leaseTtlMs?: number;
+  /** How often a held lease is renewed in milliseconds */
+  leaseRenewIntervalMs?: number;
+}
+
+/**
+ * ZAP instance held by one scan until released
+ */
+export interface ZapLease {
+  /** Instance the scan runs on */
+  instanceId: string;
+  /** Client for the instance */
+  zap: ZapScanner;
+  /** Returns the instance to the pool */
+  release: () => void;
+}
+
+/**
+ * Load and health of one pooled instance
+ */
+export interface ZapInstanceStatus {
+  id: string;
+  healthy: boolean;
+  leases: number;
+}
+
+interface ZapInstance {
+  id: string;
+  scanner: ZapScanner;
+  healthy: boolean;
+  failures: number;
+}
+
+/**
+ * Pool of ZAP daemons that hands each scan its own instance, spreading scans
+ * by load and keeping unhealthy instances out of rotation until they recover.
+ * Leases are kept in Redis, so every worker sharing the pool sees the load
+ * the others put on an instance.
+ */
+export class ZapPool {
+  private instances: ZapInstance[];
+  private maxLeasesPerInstance: number;
+  private maxFailures: number;
+  private leaseTtlMs: number;
+  private leaseRenewIntervalMs: number;
+
+  /**
+   * @param configs - Connection settings of every instance
+   * @param redis - Redis holding the leases of every worker
+   * @param options - Pool configuration options
+   */
+  constructor(
+    configs: ZapConfig[],
+    private redis: Redis,
+    options: ZapPoolOptions = {}
+  ) {
+    this.instances = configs.map((config, index) => ({
+      id: config.proxyUrl ?? `zap-${index}`,
+      scanner: new ZapScanner(config),
+      healthy: true,
+      failures: 0,
+    }));
+    this.maxLeasesPerInstance =
+      options.maxLeasesPerInstance ?? DEFAULT_CONFIG.maxLeasesPerInstance;
+    this.maxFailures = options.maxFailures ?? DEFAULT_CONFIG.maxFailures;
+    this.leaseTtlMs = options.leaseTtlMs ?? DEFAULT_CONFIG.leaseTtlMs;
+    this.leaseRenewIntervalMs =
+      options.leaseRenewIntervalMs ?? DEFAULT_CONFIG.leaseRenewIntervalMs;
+  }
+
+  /**
+   * Scans the whole pool runs at the same time
+   */
+  get capacity(): number {
+    return this.instances.length * this.maxLeasesPerInstance;
+  }
+
+  /**
+   * Leases the least loaded healthy instance
+   * @param leaseId - Identifies the scan holding the lease
+   * @param preferredId - Instance to use if it has capacity, such as the one
+   * a previous attempt of the scan ran on
+   * @param exclusive - Whether no other scan may share the instance, for
+   * scans whose instance-wide settings must not reach other scans
+   * @throws {ZapPoolExhaustedError} If no healthy instance has capacity
+   */
+  async lease(
+    leaseId: string,
+    preferredId?: string,
+    exclusive = false
+  ): Promise<ZapLease> {
+    const slots = exclusive ? this.maxLeasesPerInstance : 1;
+    const loads = new Map<string, number>();
+    for (const instance of this.instances) {
+      if (instance.healthy) {
+        loads.set(instance.id, await this.countLeases(instance.id));
+      }
+    }
+    const candidates = this.instances
+      .filter(
+        (instance) =>
+          instance.healthy &&
+          (loads.get(instance.id) ?? 0) + slots <= this.maxLeasesPerInstance
+      )
+      .sort((a, b) =>
+        a.id === preferredId
+          ? -1
+          : b.id === preferredId
+          ? 1
+          : (loads.get(a.id) ?? 0) - (loads.get(b.id) ?? 0)
+      );
+
+    for (const instance of candidates) {
+      if (!(await this.probe(instance))) continue;
+      // Another worker may have taken the last slot meanwhile
+      if (!(await this.takeLease(instance.id, leaseId, slots))) continue;
+
+      const key = this.leaseKey(instance.id);
+      const renewal = setInterval(async () => {
+        try {
+          const renewed = await this.redis.eval(
+            RENEW_SCRIPT,
+            1,
+            key,
+            leaseId,
+            Date.now(),
+            this.leaseTtlMs
+          );
+          if (Number(renewed) === 0) {
+            logger.warn("ZAP lease expired before renewal, taking it again", {
+              instanceId: instance.id,
+              leaseId,
+            });
+            await this.takeLease(instance.id, leaseId, slots);
+          }
+        } catch (error) {
+          logger.warn("Failed to renew ZAP lease", {
+            instanceId: instance.id,
+            leaseId,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }, this.leaseRenewIntervalMs);
+
+      return {
+        instanceId: instance.id,
+        zap: instance.scanner,
+        release: () => {
+          clearInterval(renewal);
+          this.redis.hdel(key, leaseId).catch(() => undefined);
+        },
+      };
+    }
+
+    throw new ZapPoolExhaustedError(
+      `No healthy ZAP instance has capacity (${this.instances.length} pooled)`
+    );
+  }
+
+  /**
+   * Reports the load and health of every instance
+   */
+  async getStatus(): Promise<ZapInstanceStatus[]> {
+    const statuses: ZapInstanceStatus[] = [];
+    for (const instance of this.instances) {
+      statuses.push({
+        id: instance.id,
+        healthy: instance.healthy,
+        leases: await this.countLeases(instance.id),
+      });
+    }
+    return statuses;
+  }
+
+  /**
+   * Probes every instance, evicting or readmitting them as needed
+   * @returns Number of instances that answered
+   */
+  async checkHealth(): Promise<number> {
+    const results = await Promise.all(
+      this.instances.map((instance) => this.probe(instance))
+    );
+    return results.filter(Boolean).length;
+  }
+
+  /**
+   * Whether any instance is in rotation
+   */
+  hasHealthyInstance(): boolean {
+    return this.instances.some((instance) => instance.healthy);
+  }
+
+  /**
+   * Whether an instance is still answering its API
+   * @param instanceId - Instance to check
+   */
+  async isReachable(instanceId: string): Promise<boolean> {
+    const instance = this.instances.find(({ id }) => id === instanceId);
+    return instance ? this.probe(instance) : false;
+  }
+
+  /**
+   * Redis key holding the leases on an instance
+   */
+  private leaseKey(instanceId: string): string {
+    return `zap:leases:${instanceId}`;
+  }
+
+  /**
+   * Takes a lease on an instance if it has capacity
+   * @param slots - Share of the instance's capacity the lease takes
+   * @returns Whether the lease was taken
+   */
+  private async takeLease(
+    instanceId: string,
+    leaseId: string,
+    slots: number
+  ): Promise<boolean> {
+    const taken = await this.redis.eval(
+      LEASE_SCRIPT,
+      1,
+      this.leaseKey(instanceId),
+      leaseId,
+      this.maxLeasesPerInstance,
+      slots,
+      Date.now(),
+      this.leaseTtlMs
+    );
+    return Number(taken) === 1;
+  }
+
+  /**
+   * Counts the slots every worker's unexpired leases take on an instance
+   */
+  private async countLeases(instanceId: string): Promise<number> {
+    const leases = await this.redis.hvals(this.leaseKey(instanceId));
+    const now = Date.now();
+    return leases.reduce((held, lease) => {
+      const [expiresAt, slots] = lease.split(":").map(Number);
+      return expiresAt && expiresAt > now ? held + (slots ?? 1) : held;
+    }, 0);
+  }
+
+  /**
+   * Checks that an instance answers its API
+   * @returns Whether the instance is reachable
+   */
+  private async probe(instance: ZapInstance): Promise<boolean> {
+    try {
+      await instance.scanner.getVersion();
+      instance.failures = 0;
+      if (!instance.healthy) {
+        instance.healthy = true;
+        logger.info("ZAP instance recovered", { instanceId: instance.id });
+      }
+      return true;
+    } catch (error) {
+      instance.failures++;
+      if (instance.healthy && instance.failures >= this.maxFailures) {
+        instance.healthy = false;
+        logger.error("Evicting unhealthy ZAP instance", {
+          instanceId: instance.id,
+          failures: instance.failures,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+      return false;
+    }
+  }
+}
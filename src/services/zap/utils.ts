@@ -78,8 +78,27 @@ export function mapZapRiskToSeverity(
   }
 }
 
+/**
+ * Sleeps for the given time, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
  * Waits for a ZAP operation to complete by polling its status
+ * @throws The signal's abort reason if the operation is cancelled
  */
 export async function waitForZapOperation(
   getStatus: () => Promise<{ status: any; isComplete: boolean }>,
@@ -87,15 +106,17 @@ export async function waitForZapOperation(
   scanId: string,
   targetUrl: string,
   maxRetries = 450,
-  intervalMs = 2000
+  intervalMs = 2000,
+  signal?: AbortSignal
 ): Promise<void> {
   let retries = 0;
   while (retries < maxRetries) {
+    signal?.throwIfAborted();
     const result = await getStatus();
     if (result.isComplete) {
       return;
     }
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    await sleep(intervalMs, signal);
     retries++;
   }
   throw new Error(
@@ -0,0 +1,118 @@
+import { redis } from "@/redis";
+import { logger } from "@/logger";
+import { sleep } from "@/services/zap/utils";
+
+/** How long a lock lives without being renewed */
+const LOCK_TTL_MS = 60000;
+
+/** How often the holder renews its lock */
+const LOCK_RENEW_INTERVAL_MS = 20000;
+
+/** How often a scan waiting for the lock tries again */
+const LOCK_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Takes the lock if it is free or already held by the caller. Returns 0 if
+ * another scan holds it, 1 if it was taken and 2 if the caller held it.
+ */
+const ACQUIRE_SCRIPT = `
+local holder = redis.call("GET", KEYS[1])
+if holder and holder ~= ARGV[1] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+if holder then
+  return 2
+end
+return 1
+`;
+
+/** Extends the lock if the caller still holds it */
+const RENEW_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/** Drops the lock if the caller still holds it */
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Exclusive use of an instance's AJAX spider, held by one scan
+ */
+export interface AjaxSpiderLock {
+  /** Whether the scan already held the lock, from a previous attempt */
+  held: boolean;
+  /** Lets the next scan use the spider */
+  release: () => Promise<void>;
+}
+
+/**
+ * Redis key of the lock on an instance's AJAX spider
+ */
+export function ajaxSpiderLockKey(instanceId: string): string {
+  return `zap:ajax-spider:${instanceId}`;
+}
+
+/**
+ * Waits for exclusive use of a ZAP instance's AJAX spider. ZAP runs one AJAX
+ * spider per instance with instance-wide options, so scans sharing an
+ * instance take turns. The lock is renewed until released and expires if
+ * its worker dies.
+ * @param instanceId - Instance whose spider is used
+ * @param scanId - Scan taking the lock
+ * @param waitMs - How long to wait for another scan's spider to finish
+ * @param signal - Stops waiting when the scan is cancelled
+ * @returns The lock, or null if it did not come free in time
+ */
+export async function lockAjaxSpider(
+  instanceId: string,
+  scanId: string,
+  waitMs: number,
+  signal?: AbortSignal
+): Promise<AjaxSpiderLock | null> {
+  const key = ajaxSpiderLockKey(instanceId);
+  const deadline = Date.now() + waitMs;
+
+  let result = Number(
+    await redis.eval(ACQUIRE_SCRIPT, 1, key, scanId, LOCK_TTL_MS)
+  );
+  while (result === 0) {
+    if (Date.now() >= deadline) return null;
+    await sleep(LOCK_POLL_INTERVAL_MS, signal);
+    result = Number(
+      await redis.eval(ACQUIRE_SCRIPT, 1, key, scanId, LOCK_TTL_MS)
+    );
+  }
+
+  const interval = setInterval(async () => {
+    try {
+      const renewed = Number(
+        await redis.eval(RENEW_SCRIPT, 1, key, scanId, LOCK_TTL_MS)
+      );
+      if (!renewed) {
+        logger.warn("Lost AJAX spider lock", { scanId, instanceId });
+      }
+    } catch (error) {
+      logger.warn("Failed to renew AJAX spider lock", {
+        scanId,
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }, LOCK_RENEW_INTERVAL_MS);
+
+  return {
+    held: result === 2,
+    release: async () => {
+      clearInterval(interval);
+      await redis.eval(RELEASE_SCRIPT, 1, key, scanId);
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { logger } from "@/logger";
+import type { ScanFinding } from "@/db/schema";
+import { buildSarifLog } from "@/services/reports/sarif";
+import { renderHtmlReport } from "@/services/reports/html";
+import { renderMarkdownReport } from "@/services/reports/markdown";
+import { renderJunitReport } from "@/services/reports/junit";
+import type { GateResult } from "@/services/reports/types";
+import {
+  getReportTemplates,
+  getScanFindings,
+  getScanRecord,
+  saveScanArtifact,
+} from "./db-operations";
+
+/**
+ * Generates the reports of a finished scan from its stored findings and
+ * stores them as artifacts. HTML and Markdown reports use the project's
+ * templates where it has them.
+ * @param engines - Engines that ran, each reported even without findings
+ * @param gate - Verdict of the scan's gate policy, reported as JUnit XML
+ */
+export async function storeScanArtifacts(
+  scanId: string,
+  engines: ScanFinding["engine"][],
+  gate?: GateResult
+): Promise<void> {
+  const [scan, findings] = await Promise.all([
+    getScanRecord(scanId),
+    getScanFindings(scanId),
+  ]);
+  const templates = await getReportTemplates(scan.projectId);
+  const templateFor = (format: "html" | "markdown") =>
+    templates.find((template) => template.format === format)?.template;
+
+  const artifacts = [
+    {
+      format: "sarif" as const,
+      contentType: "application/sarif+json",
+      content: JSON.stringify(buildSarifLog({ scan, findings }, engines)),
+    },
+    {
+      format: "html" as const,
+      contentType: "text/html; charset=utf-8",
+      content: renderHtmlReport({ scan, findings }, templateFor("html")),
+    },
+    {
+      format: "markdown" as const,
+      contentType: "text/markdown; charset=utf-8",
+      content: renderMarkdownReport(
+        { scan, findings },
+        templateFor("markdown")
+      ),
+    },
+    ...(gate
+      ? [
+          {
+            format: "junit" as const,
+            contentType: "application/xml",
+            content: renderJunitReport({ scan }, gate),
+          },
+        ]
+      : []),
+  ];
+  for (const artifact of artifacts) {
+    await saveScanArtifact({ scanId, ...artifact });
+  }
+
+  logger.info("Stored scan artifacts", {
+    scanId,
+    formats: artifacts.map((artifact) => artifact.format),
+    findings: findings.length,
+  });
+}
@@ -0,0 +1,116 @@
+import { redis } from "@/redis";
+import { logger } from "@/logger";
+
+/** How often the worker checks whether a scan was cancelled */
+const CANCELLATION_POLL_INTERVAL_MS = 5000;
+
+/** Cancellation requests expire so stale keys never affect a rerun */
+const CANCELLATION_TTL_SECONDS = 24 * 60 * 60;
+
+export class ScanCancelledError extends Error {
+  constructor(scanId: string) {
+    super(`Scan ${scanId} was cancelled`);
+    this.name = "ScanCancelledError";
+  }
+}
+
+export class ScanInterruptedError extends Error {
+  readonly code = "scan_interrupted";
+
+  constructor(scanId: string) {
+    super(`Scan ${scanId} was interrupted by a worker shutdown`);
+    this.name = "ScanInterruptedError";
+  }
+}
+
+/** Abort controllers of the scans running in this process */
+const runningScans = new Map<string, AbortController>();
+
+/**
+ * Redis key that signals a scan should be cancelled
+ */
+export function cancellationKey(scanId: string): string {
+  return `scan:cancel:${scanId}`;
+}
+
+/**
+ * Requests cancellation of a running scan
+ */
+export async function requestScanCancellation(scanId: string): Promise<void> {
+  await redis.set(
+    cancellationKey(scanId),
+    new Date().toISOString(),
+    "EX",
+    CANCELLATION_TTL_SECONDS
+  );
+}
+
+/**
+ * Watches for a cancellation request and aborts the returned signal when one
+ * arrives
+ * @param stopOn - Also aborts the signal, with its reason, once this aborts
+ */
+export function watchForCancellation(
+  scanId: string,
+  stopOn?: AbortSignal
+): {
+  signal: AbortSignal;
+  stop: () => void;
+} {
+  const controller = new AbortController();
+  runningScans.set(scanId, controller);
+
+  const forward = () => {
+    if (!controller.signal.aborted) controller.abort(stopOn?.reason);
+  };
+  if (stopOn?.aborted) forward();
+  stopOn?.addEventListener("abort", forward, { once: true });
+
+  const check = async () => {
+    try {
+      if (await redis.exists(cancellationKey(scanId))) {
+        logger.info("Scan cancellation requested", { scanId });
+        controller.abort(new ScanCancelledError(scanId));
+        clearInterval(interval);
+      }
+    } catch (error) {
+      logger.warn("Failed to check scan cancellation", {
+        scanId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const interval = setInterval(check, CANCELLATION_POLL_INTERVAL_MS);
+  void check();
+
+  return {
+    signal: controller.signal,
+    stop: () => {
+      clearInterval(interval);
+      stopOn?.removeEventListener("abort", forward);
+      runningScans.delete(scanId);
+    },
+  };
+}
+
+/**
+ * Aborts every scan running in this process so it stops its engines, cleans
+ * up and hands the job back to the queue
+ * @returns Number of scans interrupted
+ */
+export function interruptRunningScans(): number {
+  for (const [scanId, controller] of runningScans) {
+    if (!controller.signal.aborted) {
+      controller.abort(new ScanInterruptedError(scanId));
+    }
+  }
+  return runningScans.size;
+}
+
+/**
+ * Removes the cancellation request once a scan has stopped
+ */
+export async function clearCancellation(scanId: string): Promise<void> {
+  await redis.del(cancellationKey(scanId));
+}
@@ -0,0 +1,178 @@
+import type { ScanCheckpoint } from "@/db/schema";
+import { logger } from "@/logger";
+import {
+  deleteScanCheckpoints,
+  getScanCheckpoints,
+  saveScanCheckpoint,
+} from "./db-operations";
+import type { ScanPhase } from "./progress";
+
+/** Target used for phases that cover the whole scan */
+export const SCAN_WIDE_TARGET = "*";
+
+/** Phases whose results live in the ZAP context rather than the database */
+const ZAP_PHASES: ScanPhase[] = [
+  "crawl",
+  "spider",
+  "ajax_spider",
+  "active_scan",
+];
+
+/**
+ * Per-target, per-phase checkpoints of a scan, loaded once per job so a
+ * retried job can skip or reattach to work done by a previous attempt
+ */
+export class ScanCheckpoints {
+  private constructor(
+    private scanId: string,
+    private entries: Map<string, ScanCheckpoint>
+  ) {}
+
+  private static key(target: string, phase: ScanPhase): string {
+    return `${phase}:${target}`;
+  }
+
+  /**
+   * Loads the checkpoints recorded for a scan
+   */
+  static async load(scanId: string): Promise<ScanCheckpoints> {
+    const checkpoints = await getScanCheckpoints(scanId);
+    if (checkpoints.length > 0) {
+      logger.info("Resuming scan from checkpoints", {
+        scanId,
+        completed: checkpoints
+          .filter((checkpoint) => checkpoint.status === "completed")
+          .map((checkpoint) => `${checkpoint.phase}:${checkpoint.target}`),
+      });
+    }
+
+    return new ScanCheckpoints(
+      scanId,
+      new Map(
+        checkpoints.map((checkpoint) => [
+          ScanCheckpoints.key(checkpoint.target, checkpoint.phase),
+          checkpoint,
+        ])
+      )
+    );
+  }
+
+  /**
+   * Gets the checkpoint of a target phase
+   */
+  get(target: string, phase: ScanPhase): ScanCheckpoint | undefined {
+    return this.entries.get(ScanCheckpoints.key(target, phase));
+  }
+
+  /**
+   * Whether a target phase finished in this or a previous attempt
+   */
+  isCompleted(target: string, phase: ScanPhase): boolean {
+    return this.get(target, phase)?.status === "completed";
+  }
+
+  /**
+   * Records that a target phase started, with the ZAP scan ID to reattach to
+   */
+  async start(
+    target: string,
+    phase: ScanPhase,
+    zapScanId?: string
+  ): Promise<void> {
+    await this.save(target, phase, "running", zapScanId);
+  }
+
+  /**
+   * Records that a target phase finished, with any output needed to skip it
+   */
+  async complete(
+    target: string,
+    phase: ScanPhase,
+    data?: unknown
+  ): Promise<void> {
+    await this.save(target, phase, "completed", undefined, data);
+  }
+
+  /**
+   * Marks a phase completed in memory once it has been persisted elsewhere
+   */
+  markCompleted(target: string, phase: ScanPhase): void {
+    const now = new Date();
+    this.entries.set(ScanCheckpoints.key(target, phase), {
+      id: "",
+      scanId: this.scanId,
+      target,
+      phase,
+      status: "completed",
+      zapScanId: null,
+      data: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Forgets the phases whose results lived in a ZAP context that is gone,
+   * so they run again in the new one
+   */
+  async discardZapPhases(): Promise<void> {
+    const discarded = [...this.entries.values()].filter((checkpoint) =>
+      ZAP_PHASES.includes(checkpoint.phase)
+    );
+    if (discarded.length === 0) return;
+
+    await deleteScanCheckpoints(this.scanId, ZAP_PHASES);
+    for (const checkpoint of discarded) {
+      this.entries.delete(
+        ScanCheckpoints.key(checkpoint.target, checkpoint.phase)
+      );
+    }
+    logger.info("Discarded checkpoints of a lost ZAP context", {
+      scanId: this.scanId,
+      discarded: discarded.length,
+    });
+  }
+
+  /**
+   * Forgets the ZAP scans of phases that were stopped before finishing, so
+   * the next attempt starts them again instead of reattaching
+   */
+  async forgetStoppedZapScans(): Promise<void> {
+    const stopped = [...this.entries.values()].filter(
+      (checkpoint) =>
+        ZAP_PHASES.includes(checkpoint.phase) &&
+        checkpoint.status === "running" &&
+        checkpoint.zapScanId
+    );
+    for (const checkpoint of stopped) {
+      await this.save(checkpoint.target, checkpoint.phase, "running");
+    }
+  }
+
+  private async save(
+    target: string,
+    phase: ScanPhase,
+    status: ScanCheckpoint["status"],
+    zapScanId?: string,
+    data?: unknown
+  ): Promise<void> {
+    const checkpoint = {
+      scanId: this.scanId,
+      target,
+      phase,
+      status,
+      zapScanId: zapScanId ?? null,
+      data: data ?? null,
+    };
+    await saveScanCheckpoint(checkpoint);
+
+    const now = new Date();
+    const existing = this.get(target, phase);
+    this.entries.set(ScanCheckpoints.key(target, phase), {
+      id: existing?.id ?? "",
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...checkpoint,
+    });
+  }
+}
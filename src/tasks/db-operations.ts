@@ -1,9 +1,52 @@
 import { db } from "@/db/db";
-import { scans, scanFindings } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  scans,
+  scanFindings,
+  scanCheckpoints,
+  verifiedDomains,
+  suppressionRules,
+  severityOverrides,
+  scanArtifacts,
+  reportTemplates,
+  webhookSubscriptions,
+  webhookDeliveries,
+} from "@/db/schema";
+import type {
+  NewScan,
+  NewScanArtifact,
+  NewScanCheckpoint,
+  NewVerifiedDomain,
+  ReportTemplate,
+  ScanCheckpoint,
+  ScanFinding,
+  SeverityOverride,
+  SuppressionRule,
+  VerifiedDomain,
+  WebhookDelivery,
+  WebhookSubscription,
+  NewWebhookDelivery,
+} from "@/db/schema";
+import {
+  and,
+  arrayContains,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
 import { SCAN_STATUS } from "@/services/nuclei/types";
 import { logger } from "@/logger";
-import type { ScanStats } from "./types";
+import { scanFindingsTotal } from "@/metrics";
+import type { GateResult } from "@/services/reports/types";
+import type { Finding, ScanDiffSummary, ScanStats } from "./types";
+import type { ScanProfileName } from "./scan-profiles";
+import { calculateStats } from "./findings-utils";
+import { SuppressionMatcher } from "./suppression";
 
 /**
  * Updates scan status and statistics in the database
@@ -22,6 +65,10 @@ export async function updateScanStatus(
       : error
       ? "Unknown error occurred"
       : null;
+  const errorCode =
+    error instanceof Error && "code" in error && typeof error.code === "string"
+      ? error.code
+      : null;
 
   await db
     .update(scans)
@@ -29,11 +76,63 @@ export async function updateScanStatus(
       status,
       completedAt: new Date(),
       errorMessage,
+      errorCode,
       ...stats,
     })
     .where(eq(scans.id, scanId));
 }
 
+/**
+ * Records the current phase and progress of a running scan
+ */
+export async function updateScanProgress(
+  scanId: string,
+  progress: Pick<
+    NewScan,
+    "currentPhase" | "progressPercent" | "currentTargetUrl"
+  >
+): Promise<void> {
+  await db.update(scans).set(progress).where(eq(scans.id, scanId));
+}
+
+/**
+ * Records the scan profile used for auditability
+ */
+export async function updateScanProfile(
+  scanId: string,
+  profile: ScanProfileName
+): Promise<void> {
+  await db.update(scans).set({ profile }).where(eq(scans.id, scanId));
+}
+
+/**
+ * Records how many URLs each discovery source contributed to the scan
+ */
+export async function updateScanDiscoverySources(
+  scanId: string,
+  discoverySources: Record<string, number>
+): Promise<void> {
+  await db.update(scans).set({ discoverySources }).where(eq(scans.id, scanId));
+}
+
+/**
+ * Appends non-fatal problems to the scan's warnings
+ */
+export async function appendScanWarnings(
+  scanId: string,
+  warnings: string[]
+): Promise<void> {
+  if (warnings.length === 0) return;
+
+  const text = warnings.join("\n");
+  await db
+    .update(scans)
+    .set({
+      warnings: sql`concat_ws(chr(10), ${scans.warnings}, ${text}::text)`,
+    })
+    .where(eq(scans.id, scanId));
+}
+
 /**
  * Fetches a scan record by ID
  */
@@ -50,23 +149,468 @@ export async function getScanRecord(scanId: string) {
 }
 
 /**
- * Stores findings and updates scan statistics
+ * Fetches all checkpoints recorded for a scan
+ */
+export async function getScanCheckpoints(
+  scanId: string
+): Promise<ScanCheckpoint[]> {
+  return db.query.scanCheckpoints.findMany({
+    where: eq(scanCheckpoints.scanId, scanId),
+  });
+}
+
+/**
+ * Creates or updates the checkpoint of a target phase
+ */
+export async function saveScanCheckpoint(
+  checkpoint: NewScanCheckpoint,
+  executor: Pick<typeof db, "insert"> = db
+): Promise<void> {
+  await executor
+    .insert(scanCheckpoints)
+    .values(checkpoint)
+    .onConflictDoUpdate({
+      target: [
+        scanCheckpoints.scanId,
+        scanCheckpoints.target,
+        scanCheckpoints.phase,
+      ],
+      set: {
+        status: checkpoint.status,
+        zapScanId: checkpoint.zapScanId ?? null,
+        data: checkpoint.data ?? null,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Deletes the checkpoints of some phases of a scan
+ */
+export async function deleteScanCheckpoints(
+  scanId: string,
+  phases: ScanCheckpoint["phase"][]
+): Promise<void> {
+  await db
+    .delete(scanCheckpoints)
+    .where(
+      and(
+        eq(scanCheckpoints.scanId, scanId),
+        inArray(scanCheckpoints.phase, phases)
+      )
+    );
+}
+
+/**
+ * Stores findings and completes the phase that produced them in a single
+ * transaction, so a retried job never stores them twice
+ */
+export async function storeFindings(
+  findings: Finding[],
+  checkpoint: Pick<NewScanCheckpoint, "scanId" | "target" | "phase">
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    if (findings.length > 0) {
+      await tx.insert(scanFindings).values(findings);
+    }
+    await saveScanCheckpoint({ ...checkpoint, status: "completed" }, tx);
+  });
+
+  for (const finding of findings) {
+    scanFindingsTotal.inc({ severity: finding.severity });
+  }
+
+  logger.info("Stored findings in database", {
+    ...checkpoint,
+    findingsCount: findings.length,
+  });
+}
+
+/** Excludes the copies of fixed issues a scan keeps for its diff */
+const isNotFixed = or(
+  isNull(scanFindings.diffStatus),
+  ne(scanFindings.diffStatus, "fixed")
+);
+
+/**
+ * Compares a scan's findings with the project's previous completed scan by
+ * fingerprint. Findings are labelled new or recurring, keeping the first time
+ * a recurring issue was seen, and issues that disappeared are copied into the
+ * scan as fixed. Safe to run again for the same scan.
+ * @returns Counts stored on the scan row
+ */
+export async function diffScanFindings(
+  scanId: string
+): Promise<ScanDiffSummary> {
+  const scanRecord = await getScanRecord(scanId);
+  const previousScan = await db.query.scans.findFirst({
+    where: and(
+      eq(scans.projectId, scanRecord.projectId),
+      eq(scans.status, SCAN_STATUS.Completed),
+      ne(scans.id, scanId),
+      lt(scans.startedAt, scanRecord.startedAt)
+    ),
+    orderBy: desc(scans.startedAt),
+    columns: { id: true },
+  });
+  const previousFindings = previousScan
+    ? await db.query.scanFindings.findMany({
+        where: and(eq(scanFindings.scanId, previousScan.id), isNotFixed),
+      })
+    : [];
+  const previousByFingerprint = new Map(
+    previousFindings.map((finding) => [finding.fingerprint, finding])
+  );
+  const now = new Date();
+
+  const summary = await db.transaction(async (tx) => {
+    await tx
+      .delete(scanFindings)
+      .where(
+        and(
+          eq(scanFindings.scanId, scanId),
+          eq(scanFindings.diffStatus, "fixed")
+        )
+      );
+    const currentFindings = await tx.query.scanFindings.findMany({
+      where: eq(scanFindings.scanId, scanId),
+      columns: { id: true, fingerprint: true, suppressed: true },
+    });
+    const currentFingerprints = new Set(
+      currentFindings.map((finding) => finding.fingerprint)
+    );
+
+    // Suppressed findings are labelled but left out of the counts
+    const newIds: string[] = [];
+    let newFindings = 0;
+    let recurringFindings = 0;
+    for (const finding of currentFindings) {
+      const previous = previousByFingerprint.get(finding.fingerprint);
+      if (!previous) {
+        newIds.push(finding.id);
+        if (!finding.suppressed) newFindings++;
+        continue;
+      }
+      if (!finding.suppressed) recurringFindings++;
+      await tx
+        .update(scanFindings)
+        .set({
+          diffStatus: "recurring",
+          firstSeenAt: previous.firstSeenAt ?? previous.createdAt,
+          lastSeenAt: now,
+        })
+        .where(eq(scanFindings.id, finding.id));
+    }
+    if (newIds.length > 0) {
+      await tx
+        .update(scanFindings)
+        .set({ diffStatus: "new", firstSeenAt: now, lastSeenAt: now })
+        .where(inArray(scanFindings.id, newIds));
+    }
+
+    const fixed = previousFindings.filter(
+      (finding) =>
+        !finding.suppressed && !currentFingerprints.has(finding.fingerprint)
+    );
+    if (fixed.length > 0) {
+      await tx.insert(scanFindings).values(
+        fixed.map(({ id, createdAt, ...finding }) => ({
+          ...finding,
+          scanId,
+          diffStatus: "fixed" as const,
+          firstSeenAt: finding.firstSeenAt ?? createdAt,
+          lastSeenAt: finding.lastSeenAt ?? createdAt,
+        }))
+      );
+    }
+
+    const diff: ScanDiffSummary = {
+      previousScanId: previousScan?.id ?? null,
+      newFindings,
+      recurringFindings,
+      fixedFindings: fixed.length,
+    };
+    await tx.update(scans).set(diff).where(eq(scans.id, scanId));
+    return diff;
+  });
+
+  logger.info("Compared findings with previous scan", { scanId, ...summary });
+  return summary;
+}
+
+/**
+ * Fetches the severities a project assigns per plugin or template
+ */
+export async function getSeverityOverrides(
+  projectId: string
+): Promise<SeverityOverride[]> {
+  return db.query.severityOverrides.findMany({
+    where: eq(severityOverrides.projectId, projectId),
+  });
+}
+
+/**
+ * Fetches the suppression rules of a project that have not expired
+ */
+export async function getActiveSuppressionRules(
+  projectId: string
+): Promise<SuppressionRule[]> {
+  return db.query.suppressionRules.findMany({
+    where: and(
+      eq(suppressionRules.projectId, projectId),
+      or(
+        isNull(suppressionRules.expiresAt),
+        gt(suppressionRules.expiresAt, new Date())
+      )
+    ),
+  });
+}
+
+/**
+ * Marks the scan's findings matching an unexpired suppression rule of the
+ * project as suppressed, and clears the mark from any that no longer match
+ * @returns Number of suppressed findings
+ */
+async function applySuppressionRules(
+  scanId: string,
+  projectId: string
+): Promise<number> {
+  const matcher = new SuppressionMatcher(
+    await getActiveSuppressionRules(projectId)
+  );
+  const findings = await db.query.scanFindings.findMany({
+    where: and(eq(scanFindings.scanId, scanId), isNotFixed),
+    columns: {
+      id: true,
+      pluginId: true,
+      url: true,
+      parameter: true,
+      cweIds: true,
+      instances: true,
+      suppressed: true,
+      suppressionRuleId: true,
+    },
+  });
+
+  // Only findings whose suppression changed are updated
+  const byRule = new Map<string | null, string[]>();
+  let suppressed = 0;
+  for (const finding of findings) {
+    const ruleId = matcher.match(finding)?.id ?? null;
+    if (ruleId) suppressed++;
+    if (
+      ruleId === finding.suppressionRuleId &&
+      finding.suppressed === !!ruleId
+    ) {
+      continue;
+    }
+    byRule.set(ruleId, [...(byRule.get(ruleId) ?? []), finding.id]);
+  }
+
+  await db.transaction(async (tx) => {
+    for (const [ruleId, ids] of byRule) {
+      await tx
+        .update(scanFindings)
+        .set({ suppressed: ruleId !== null, suppressionRuleId: ruleId })
+        .where(inArray(scanFindings.id, ids));
+    }
+  });
+
+  if (suppressed > 0) {
+    logger.info("Suppressed findings matching project rules", {
+      scanId,
+      suppressed,
+    });
+  }
+  return suppressed;
+}
+
+/**
+ * Applies the project's suppression rules, computes statistics over every
+ * stored finding of a scan and updates its status
+ * @returns The computed statistics
  */
 export async function storeScanResults(
-  findings: any[],
   scanId: string,
   contextName: string,
-  stats: ScanStats
-): Promise<void> {
-  // Bulk insert findings
-  await db.insert(scanFindings).values(findings);
+  status: SCAN_STATUS = SCAN_STATUS.Completed
+): Promise<ScanStats> {
+  const scanRecord = await getScanRecord(scanId);
+  await applySuppressionRules(scanId, scanRecord.projectId);
+
+  const storedFindings = await db.query.scanFindings.findMany({
+    where: and(eq(scanFindings.scanId, scanId), isNotFixed),
+    columns: { severity: true, riskScore: true, suppressed: true },
+  });
+  const stats = calculateStats(storedFindings);
 
   // Update scan with statistics
-  await updateScanStatus(scanId, SCAN_STATUS.Completed, stats);
+  await updateScanStatus(scanId, status, stats);
 
   logger.info("Stored findings in database with statistics", {
     scanId,
     contextName,
     stats,
   });
+
+  return stats;
+}
+
+/**
+ * Fetches every stored finding of a scan, fixed copies included
+ */
+export async function getScanFindings(scanId: string): Promise<ScanFinding[]> {
+  return db.query.scanFindings.findMany({
+    where: eq(scanFindings.scanId, scanId),
+  });
+}
+
+/**
+ * Records the verdict of a scan's gate policy
+ */
+export async function updateScanGate(
+  scanId: string,
+  gate: Pick<GateResult, "passed" | "reasons">
+): Promise<void> {
+  await db
+    .update(scans)
+    .set({
+      gateVerdict: gate.passed ? "passed" : "failed",
+      gateReasons: gate.reasons,
+    })
+    .where(eq(scans.id, scanId));
+}
+
+/**
+ * Fetches the report templates a project customized
+ */
+export async function getReportTemplates(
+  projectId: string
+): Promise<ReportTemplate[]> {
+  return db.query.reportTemplates.findMany({
+    where: eq(reportTemplates.projectId, projectId),
+  });
+}
+
+/**
+ * Stores a scan's report in a format, replacing any earlier one
+ */
+export async function saveScanArtifact(
+  artifact: NewScanArtifact
+): Promise<void> {
+  await db
+    .insert(scanArtifacts)
+    .values(artifact)
+    .onConflictDoUpdate({
+      target: [scanArtifacts.scanId, scanArtifacts.format],
+      set: {
+        contentType: artifact.contentType,
+        content: artifact.content,
+        createdAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Fetches the unexpired verifications a project holds for any of the given
+ * domains
+ */
+export async function getVerifiedDomains(
+  projectId: string,
+  domains: string[]
+): Promise<VerifiedDomain[]> {
+  if (domains.length === 0) return [];
+
+  return db.query.verifiedDomains.findMany({
+    where: and(
+      eq(verifiedDomains.projectId, projectId),
+      inArray(verifiedDomains.domain, domains),
+      gt(verifiedDomains.expiresAt, new Date())
+    ),
+  });
+}
+
+/**
+ * Records or refreshes a project's verification of a domain
+ */
+export async function saveVerifiedDomain(
+  verification: NewVerifiedDomain
+): Promise<void> {
+  await db
+    .insert(verifiedDomains)
+    .values(verification)
+    .onConflictDoUpdate({
+      target: [verifiedDomains.projectId, verifiedDomains.domain],
+      set: {
+        method: verification.method,
+        verifiedAt: new Date(),
+        expiresAt: verification.expiresAt,
+      },
+    });
+}
+
+/**
+ * Fetches a project's active webhook subscriptions to an event
+ */
+export async function getWebhookSubscriptions(
+  projectId: string,
+  event: WebhookSubscription["events"][number]
+): Promise<WebhookSubscription[]> {
+  return db.query.webhookSubscriptions.findMany({
+    where: and(
+      eq(webhookSubscriptions.projectId, projectId),
+      eq(webhookSubscriptions.active, true),
+      arrayContains(webhookSubscriptions.events, [event])
+    ),
+  });
+}
+
+/**
+ * Logs pending deliveries of an event
+ */
+export async function createWebhookDeliveries(
+  deliveries: NewWebhookDelivery[]
+): Promise<WebhookDelivery[]> {
+  if (deliveries.length === 0) return [];
+  return db.insert(webhookDeliveries).values(deliveries).returning();
+}
+
+/**
+ * Fetches a delivery together with the subscription it goes to
+ */
+export async function getWebhookDelivery(
+  deliveryId: string
+): Promise<
+  { delivery: WebhookDelivery; subscription: WebhookSubscription } | undefined
+> {
+  const delivery = await db.query.webhookDeliveries.findFirst({
+    where: eq(webhookDeliveries.id, deliveryId),
+  });
+  if (!delivery) return undefined;
+
+  const subscription = await db.query.webhookSubscriptions.findFirst({
+    where: eq(webhookSubscriptions.id, delivery.subscriptionId),
+  });
+  return subscription ? { delivery, subscription } : undefined;
+}
+
+/**
+ * Records the outcome of a delivery attempt
+ */
+export async function updateWebhookDelivery(
+  deliveryId: string,
+  update: Pick<
+    NewWebhookDelivery,
+    | "status"
+    | "attempts"
+    | "statusCode"
+    | "errorMessage"
+    | "lastAttemptAt"
+    | "deliveredAt"
+  >
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set(update)
+    .where(eq(webhookDeliveries.id, deliveryId));
 }
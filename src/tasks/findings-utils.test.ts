@@ -0,0 +1,157 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  fingerprintFinding,
+  groupFindings,
+  redactCredentials,
+} from "./findings-utils";
+import type { Finding, ScanAuthentication } from "./types";
+
+const PASSWORD = 'p@ss w"rd&1';
+
+function finding(overrides: Partial<Finding> = {}): Finding {
+  return {
+    scanId: "scan-1",
+    engine: "zap",
+    name: "Test finding",
+    description: "",
+    severity: "medium",
+    confidence: "medium",
+    solution: null,
+    reference: null,
+    tags: [],
+    riskLevel: "medium",
+    riskScore: 5,
+    cvssVector: null,
+    cvssScore: 5,
+    scoringVersion: "1",
+    pluginId: "10000",
+    cweIds: [],
+    wasc: [],
+    cveId: null,
+    url: "https://example.com/",
+    method: "POST",
+    parameter: null,
+    attack: null,
+    evidence: null,
+    otherInfo: null,
+    requestHeaders: null,
+    requestBody: null,
+    responseHeaders: null,
+    metadata: { pluginId: "10000", contextName: "scan-1" },
+    fingerprint: "fingerprint",
+    instances: [],
+    instanceCount: 1,
+    ...overrides,
+  };
+}
+
+const formLogin: ScanAuthentication = {
+  type: "form",
+  loginUrl: "https://example.com/login",
+  username: "alice",
+  password: PASSWORD,
+  usernameField: "username",
+  passwordField: "password",
+};
+
+test("redacts the password as sent in each encoding", () => {
+  const bodies: [string, string][] = [
+    [`password=${PASSWORD}`, "password=[REDACTED]"],
+    [`password=${encodeURIComponent(PASSWORD)}`, "password=[REDACTED]"],
+    [
+      `password=${new URLSearchParams({ p: PASSWORD }).toString().slice(2)}`,
+      "password=[REDACTED]",
+    ],
+    [
+      `password=${encodeURIComponent(PASSWORD).replace(/%20/g, "+")}`,
+      "password=[REDACTED]",
+    ],
+    [`{"password":${JSON.stringify(PASSWORD)}}`, '{"password":"[REDACTED]"}'],
+  ];
+
+  for (const [body, expected] of bodies) {
+    const [redacted] = redactCredentials(
+      [finding({ requestBody: body })],
+      formLogin
+    );
+    assert.equal(redacted?.requestBody, expected);
+  }
+});
+
+test("redacts evidence of instances and drops credential headers", () => {
+  const [redacted] = redactCredentials(
+    [
+      finding({
+        requestHeaders: { Cookie: "session=1", Accept: "*/*" },
+        instances: [
+          {
+            url: "https://example.com/",
+            method: "GET",
+            parameter: null,
+            attack: null,
+            evidence: `echo ${encodeURIComponent(PASSWORD)}`,
+          },
+        ],
+      }),
+    ],
+    formLogin
+  );
+
+  assert.deepEqual(redacted?.requestHeaders, { Accept: "*/*" });
+  assert.equal(redacted?.instances[0]?.evidence, "echo [REDACTED]");
+});
+
+test("redacts encoded basic credentials", () => {
+  const encoded = Buffer.from(`alice:${PASSWORD}`).toString("base64");
+  const [redacted] = redactCredentials(
+    [finding({ evidence: `Authorization: Basic ${encoded}` })],
+    {
+      type: "basic",
+      hostname: "example.com",
+      username: "alice",
+      password: PASSWORD,
+    }
+  );
+
+  assert.equal(redacted?.evidence, "Authorization: Basic [REDACTED]");
+});
+
+/**
+ * Builds a fingerprinted finding of a rule at a URL
+ */
+function findingAt(pluginId: string, url: string, method = "GET"): Finding {
+  const located = finding({
+    pluginId,
+    url,
+    method,
+    instances: [{ url, method, parameter: null, attack: null, evidence: null }],
+  });
+  return { ...located, fingerprint: fingerprintFinding(located) };
+}
+
+test("groups a missing header on every page into one finding per host", () => {
+  const pages = Array.from({ length: 400 }, (_, index) =>
+    findingAt(
+      "10021",
+      `https://example.com/section-${index}/page`,
+      index % 2 ? "GET" : "POST"
+    )
+  );
+  const otherHost = findingAt("10021", "https://api.example.com/");
+
+  const grouped = groupFindings([...pages, otherHost]);
+
+  assert.equal(grouped.length, 2);
+  assert.equal(grouped[0]?.instanceCount, 400);
+  assert.equal(grouped[1]?.instanceCount, 1);
+});
+
+test("keeps route-specific findings apart", () => {
+  const grouped = groupFindings([
+    findingAt("40012", "https://example.com/search?q=1"),
+    findingAt("40012", "https://example.com/profile?name=a"),
+  ]);
+
+  assert.equal(grouped.length, 2);
+});
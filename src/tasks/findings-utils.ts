@@ -1,10 +1,153 @@
-import type { Finding, ZapAlert, ScanStats } from "./types";
+import { createHash } from "crypto";
+import type {
+  Finding,
+  FindingInstance,
+  ZapAlert,
+  ScanStats,
+  ScanAuthentication,
+} from "./types";
+import type { NucleiFinding } from "@/services/nuclei/types";
+import type { ScanFinding } from "@/db/schema";
 import {
   mapZapRiskToSeverity,
   mapZapConfidence,
   mapZapRiskLevel,
-  mapZapRiskToScore,
 } from "@/services/zap/utils";
+import {
+  mapNucleiSeverity,
+  mapNucleiSeverityToRiskLevel,
+  parseRawHttpRequest,
+} from "@/services/nuclei/utils";
+import type { RiskScorer } from "@/services/scoring/service";
+
+/** Path segments that identify a record rather than a route */
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/**
+ * Reduces a URL to the route it belongs to: identifier segments become
+ * placeholders and only the names of query parameters are kept
+ */
+export function normalizeUrlPattern(url: string): string {
+  if (!URL.canParse(url)) return url.trim().toLowerCase();
+
+  const parsed = new URL(url);
+  const path = parsed.pathname
+    .split("/")
+    .map((segment) => (ID_SEGMENT.test(segment) ? "{id}" : segment))
+    .join("/");
+  const params = [...new Set(parsed.searchParams.keys())].sort();
+  return `${parsed.protocol}//${parsed.host}${path}${
+    params.length > 0 ? `?${params.join("&")}` : ""
+  }`;
+}
+
+/**
+ * ZAP rules about response headers and cookies. A server sets these the same
+ * way on every page, so each is one issue per host rather than per route.
+ */
+const SITE_WIDE_ZAP_RULES = new Set([
+  "10010", // Cookie no HttpOnly flag
+  "10011", // Cookie without Secure flag
+  "10015", // Re-examine cache-control directives
+  "10020", // Missing anti-clickjacking header
+  "10021", // X-Content-Type-Options header missing
+  "10035", // Strict-Transport-Security header
+  "10036", // Server leaks version information
+  "10037", // Server leaks information via X-Powered-By
+  "10038", // Content Security Policy header not set
+  "10054", // Cookie without SameSite attribute
+  "10063", // Permissions Policy header not set
+  "90004", // Insufficient site isolation against Spectre
+]);
+
+/**
+ * Whether a finding's rule describes the whole host rather than a route
+ */
+function isSiteWideRule(
+  finding: Pick<Finding, "engine" | "pluginId">
+): boolean {
+  return finding.engine === "zap" && SITE_WIDE_ZAP_RULES.has(finding.pluginId);
+}
+
+/**
+ * Computes the fingerprint that identifies a logical issue across instances
+ * and scans. Site-wide rules are grouped by host, so one missing header
+ * across every page is a single issue.
+ */
+export function fingerprintFinding(
+  finding: Pick<Finding, "engine" | "pluginId" | "url" | "parameter" | "method">
+): string {
+  const siteWide = isSiteWideRule(finding);
+  const location =
+    siteWide && URL.canParse(finding.url)
+      ? new URL(finding.url).host
+      : normalizeUrlPattern(finding.url);
+
+  return createHash("sha256")
+    .update(
+      [
+        finding.engine,
+        finding.pluginId,
+        location,
+        finding.parameter ?? "",
+        siteWide ? "" : finding.method?.toUpperCase() ?? "",
+      ].join("\n")
+    )
+    .digest("hex");
+}
+
+/**
+ * Completes a single-instance finding with its fingerprint and instance
+ */
+function withFingerprint(
+  finding: Omit<Finding, "fingerprint" | "instances" | "instanceCount">
+): Finding {
+  return {
+    ...finding,
+    fingerprint: fingerprintFinding(finding),
+    instances: [
+      {
+        url: finding.url,
+        method: finding.method,
+        parameter: finding.parameter,
+        attack: finding.attack,
+        evidence: finding.evidence,
+      },
+    ],
+    instanceCount: 1,
+  };
+}
+
+/**
+ * Merges findings with the same fingerprint into one logical issue holding
+ * every affected instance. The riskiest instance represents the issue.
+ */
+export function groupFindings(findings: Finding[]): Finding[] {
+  const groups = new Map<string, Finding>();
+
+  for (const finding of findings) {
+    const group = groups.get(finding.fingerprint);
+    if (!group) {
+      groups.set(finding.fingerprint, { ...finding });
+      continue;
+    }
+
+    const instances: FindingInstance[] = [
+      ...group.instances,
+      ...finding.instances,
+    ];
+    const representative =
+      finding.riskScore > group.riskScore ? finding : group;
+    groups.set(finding.fingerprint, {
+      ...representative,
+      instances,
+      instanceCount: instances.length,
+    });
+  }
+
+  return [...groups.values()];
+}
 
 /**
  * Maps ZAP alerts to finding records
@@ -12,48 +155,202 @@ import {
 export function mapAlertsToFindings(
   alerts: ZapAlert[],
   scanId: string,
-  contextName: string
+  contextName: string,
+  scorer: RiskScorer
 ): Finding[] {
-  return alerts.map((alert) => ({
-    scanId,
-    name: alert.name,
-    description: alert.description,
-    severity: mapZapRiskToSeverity(alert.risk),
-    confidence: mapZapConfidence(alert.confidence),
-    solution: alert.solution || null,
-    reference: alert.reference || null,
-    tags: ["zap", "security"],
-    riskLevel: mapZapRiskLevel(alert.risk),
-    riskScore: mapZapRiskToScore(alert.risk),
-    pluginId: alert.pluginId,
-    cweIds: alert.cweid ? [alert.cweid] : [],
-    wasc: alert.wascid ? [alert.wascid] : [],
-    cveId: null,
-    url: alert.url,
-    method: alert.method || null,
-    parameter: alert.parameter || null,
-    attack: alert.attack || null,
-    evidence: alert.evidence || null,
-    otherInfo: alert.otherinfo || null,
-    requestHeaders: alert.requestHeader
-      ? JSON.parse(alert.requestHeader)
-      : null,
-    requestBody: alert.requestBody || null,
-    responseHeaders: alert.responseHeader
-      ? JSON.parse(alert.responseHeader)
-      : null,
-    metadata: {
+  return alerts.map((alert) => {
+    const confidence = mapZapConfidence(alert.confidence);
+    const score = scorer.score({
+      engine: "zap",
+      pluginId: alert.pluginId,
+      engineSeverity: mapZapRiskToSeverity(alert.risk),
+      confidence,
+    });
+
+    return withFingerprint({
+      scanId,
+      engine: "zap",
+      name: alert.name,
+      description: alert.description,
+      ...score,
+      confidence,
+      solution: alert.solution || null,
+      reference: alert.reference || null,
+      tags: ["zap", "security"],
+      riskLevel: mapZapRiskLevel(alert.risk),
       pluginId: alert.pluginId,
-      messageId: alert.messageId,
-      contextName,
-    },
+      cweIds: alert.cweid ? [alert.cweid] : [],
+      wasc: alert.wascid ? [alert.wascid] : [],
+      cveId: null,
+      url: alert.url,
+      method: alert.method || null,
+      parameter: alert.parameter || null,
+      attack: alert.attack || null,
+      evidence: alert.evidence || null,
+      otherInfo: alert.otherinfo || null,
+      requestHeaders: alert.requestHeader
+        ? JSON.parse(alert.requestHeader)
+        : null,
+      requestBody: alert.requestBody || null,
+      responseHeaders: alert.responseHeader
+        ? JSON.parse(alert.responseHeader)
+        : null,
+      metadata: {
+        pluginId: alert.pluginId,
+        messageId: alert.messageId,
+        contextName,
+      },
+    });
+  });
+}
+
+/**
+ * Maps Nuclei template matches to finding records
+ */
+export function mapNucleiFindingsToFindings(
+  nucleiFindings: NucleiFinding[],
+  scanId: string,
+  scorer: RiskScorer
+): Finding[] {
+  return nucleiFindings.map((finding) => {
+    const templateId = finding["template-id"] ?? "unknown";
+    const info = finding.info ?? {};
+    const classification = info.classification ?? {};
+    const cveIds = [classification["cve-id"] ?? []].flat();
+    const reference = [info.reference ?? []].flat();
+    const request = parseRawHttpRequest(finding.request);
+    const score = scorer.score({
+      engine: "nuclei",
+      pluginId: templateId,
+      engineSeverity: mapNucleiSeverity(info.severity),
+      confidence: "high",
+      templateVector: classification["cvss-metrics"],
+    });
+
+    return withFingerprint({
+      scanId,
+      engine: "nuclei",
+      name: info.name ?? templateId,
+      description: info.description ?? info.name ?? templateId,
+      ...score,
+      confidence: "high",
+      solution: info.remediation ?? null,
+      reference: reference.length > 0 ? reference.join("\n") : null,
+      tags: ["nuclei", ...(info.tags ?? [])],
+      riskLevel: mapNucleiSeverityToRiskLevel(info.severity),
+      pluginId: templateId,
+      cweIds: classification["cwe-id"] ?? [],
+      wasc: [],
+      cveId: cveIds[0]?.toUpperCase() ?? null,
+      url: finding["matched-at"] ?? finding.host ?? "",
+      method: request.method,
+      parameter: null,
+      attack: null,
+      evidence: finding["extracted-results"]?.join("\n") ?? null,
+      otherInfo: finding["matcher-name"] ?? null,
+      requestHeaders: request.headers,
+      requestBody: request.body,
+      responseHeaders: null,
+      metadata: {
+        templateId,
+        templatePath: finding["template-path"],
+        matcherName: finding["matcher-name"],
+        type: finding.type,
+        host: finding.host,
+      },
+    });
+  });
+}
+
+const SENSITIVE_REQUEST_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+];
+
+/**
+ * Lists the forms a secret takes in the requests and responses ZAP records:
+ * as is, percent-encoded in a URL, form-encoded in a body and escaped in a
+ * JSON string
+ */
+function secretVariants(secret: string): string[] {
+  if (!secret) return [];
+  const urlEncoded = encodeURIComponent(secret);
+  return [
+    secret,
+    urlEncoded,
+    urlEncoded.replace(/%20/g, "+"),
+    new URLSearchParams({ value: secret }).toString().slice("value=".length),
+    JSON.stringify(secret).slice(1, -1),
+  ];
+}
+
+/**
+ * Strips scan credentials from findings before they are stored
+ */
+export function redactCredentials(
+  findings: Finding[],
+  authentication?: ScanAuthentication
+): Finding[] {
+  const sensitiveHeaders = [...SENSITIVE_REQUEST_HEADERS];
+  const rawSecrets: string[] = [];
+
+  if (authentication?.type === "header") {
+    sensitiveHeaders.push(authentication.headerName.toLowerCase());
+    rawSecrets.push(authentication.headerValue);
+  } else if (authentication) {
+    rawSecrets.push(authentication.password);
+    if (authentication.type === "basic") {
+      rawSecrets.push(
+        Buffer.from(
+          `${authentication.username}:${authentication.password}`
+        ).toString("base64")
+      );
+    }
+  }
+
+  // Longest first, so no variant is left half redacted by a shorter one
+  const secrets = [...new Set(rawSecrets.flatMap(secretVariants))].sort(
+    (a, b) => b.length - a.length
+  );
+
+  const redactText = (value: string | null) =>
+    value === null
+      ? null
+      : secrets.reduce(
+          (text, secret) => text.split(secret).join("[REDACTED]"),
+          value
+        );
+
+  return findings.map((finding) => ({
+    ...finding,
+    requestHeaders: finding.requestHeaders
+      ? Object.fromEntries(
+          Object.entries(finding.requestHeaders).filter(
+            ([name]) => !sensitiveHeaders.includes(name.toLowerCase())
+          )
+        )
+      : null,
+    requestBody: redactText(finding.requestBody),
+    attack: redactText(finding.attack),
+    evidence: redactText(finding.evidence),
+    otherInfo: redactText(finding.otherInfo),
+    instances: finding.instances.map((instance) => ({
+      ...instance,
+      attack: redactText(instance.attack),
+      evidence: redactText(instance.evidence),
+    })),
   }));
 }
 
 /**
- * Calculates statistics from findings
+ * Calculates statistics from findings, each counted once however many
+ * instances it has. Suppressed findings are only counted as suppressed.
  */
-export function calculateStats(findings: Finding[]): ScanStats {
+export function calculateStats(
+  storedFindings: Pick<ScanFinding, "severity" | "riskScore" | "suppressed">[]
+): ScanStats {
+  const findings = storedFindings.filter((finding) => !finding.suppressed);
   const stats: ScanStats = {
     criticalCount: 0,
     highCount: 0,
@@ -61,6 +358,7 @@ export function calculateStats(findings: Finding[]): ScanStats {
     lowCount: 0,
     infoCount: 0,
     totalFindings: findings.length,
+    suppressedFindings: storedFindings.length - findings.length,
     avgRiskScore: 0,
     maxRiskScore: 0,
   };
@@ -0,0 +1,100 @@
+import { logger } from "@/logger";
+import type { ScanFinding } from "@/db/schema";
+import type { GateResult } from "@/services/reports/types";
+import { SEVERITIES } from "@/services/reports/utils";
+import type { GatePolicy } from "./types";
+import { getScanFindings, updateScanGate } from "./db-operations";
+
+/**
+ * Normalizes a CWE reference so "CWE-79" and "79" compare equal
+ */
+function normalizeCwe(cwe: string): string {
+  return cwe.trim().toUpperCase().replace(/^CWE-/, "");
+}
+
+/**
+ * Evaluates a gate policy against a scan's stored findings. Fixed copies
+ * never count; suppressed findings and those the previous scan already had
+ * are left out when the policy says so.
+ */
+export function evaluateGate(
+  policy: GatePolicy,
+  findings: ScanFinding[]
+): GateResult {
+  const counted = findings.filter(
+    (finding) =>
+      finding.diffStatus !== "fixed" &&
+      !(policy.ignoreSuppressed && finding.suppressed) &&
+      !(policy.newFindingsOnly && finding.diffStatus !== "new")
+  );
+  const qualifier = policy.newFindingsOnly ? "new " : "";
+  const reasons: string[] = [];
+  const failures = new Map<ScanFinding, string[]>();
+  const fail = (finding: ScanFinding, reason: string) =>
+    failures.set(finding, [...(failures.get(finding) ?? []), reason]);
+
+  for (const severity of SEVERITIES) {
+    const max = policy.maxCounts[severity];
+    if (max === undefined) continue;
+
+    const matching = counted.filter((finding) => finding.severity === severity);
+    if (matching.length <= max) continue;
+
+    reasons.push(
+      `${matching.length} ${qualifier}${severity} findings, at most ${max} allowed`
+    );
+    for (const finding of matching) {
+      fail(
+        finding,
+        `Exceeds the limit of ${max} ${qualifier}${severity} findings`
+      );
+    }
+  }
+
+  const deniedCwes = new Set(policy.cweDenyList.map(normalizeCwe));
+  const denied = new Set<string>();
+  for (const finding of counted) {
+    const cwes = (finding.cweIds ?? [])
+      .map(normalizeCwe)
+      .filter((cwe) => deniedCwes.has(cwe));
+    for (const cwe of cwes) {
+      denied.add(cwe);
+      fail(finding, `CWE-${cwe} is denied`);
+    }
+  }
+  if (denied.size > 0) {
+    reasons.push(
+      `${
+        policy.newFindingsOnly ? "New findings" : "Findings"
+      } with denied CWEs: ${[...denied].map((cwe) => `CWE-${cwe}`).join(", ")}`
+    );
+  }
+
+  return {
+    passed: reasons.length === 0,
+    reasons,
+    failures: [...failures].map(([finding, reasons]) => ({
+      finding,
+      reasons,
+    })),
+  };
+}
+
+/**
+ * Evaluates a scan's gate policy and stores the verdict on the scan
+ */
+export async function evaluateScanGate(
+  scanId: string,
+  policy: GatePolicy
+): Promise<GateResult> {
+  const result = evaluateGate(policy, await getScanFindings(scanId));
+  await updateScanGate(scanId, result);
+
+  logger.info("Evaluated scan gate", {
+    scanId,
+    passed: result.passed,
+    reasons: result.reasons,
+    failingFindings: result.failures.length,
+  });
+  return result;
+}
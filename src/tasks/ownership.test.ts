@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { VerifiedDomain } from "@/db/schema";
+import { DomainVerifier } from "@/services/domain-verification/service";
+import type { DomainVerificationResult } from "@/services/domain-verification/types";
+import { verifyTargetOwnership } from "./ownership";
+import type { VerificationCache } from "./ownership";
+
+const PROJECT_ID = "project-1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds an in-memory verification cache holding the given verifications
+ */
+function cacheWith(
+  verifications: Pick<VerifiedDomain, "domain" | "method" | "expiresAt">[]
+): VerificationCache & { saved: string[] } {
+  const saved: string[] = [];
+  return {
+    saved,
+    getVerifiedDomains: async (projectId, domains) =>
+      verifications
+        .filter((verification) => domains.includes(verification.domain))
+        .map((verification) => ({
+          id: verification.domain,
+          projectId,
+          verifiedAt: new Date(),
+          ...verification,
+        })),
+    saveVerifiedDomain: async (verification) => {
+      saved.push(verification.domain);
+    },
+  };
+}
+
+/**
+ * Builds a verifier that proves the given hosts and records which it checked
+ */
+function verifierFor(
+  results: Record<string, Omit<DomainVerificationResult, "host">>
+): DomainVerifier & { checked: string[] } {
+  const verifier = Object.assign(new DomainVerifier({ secret: "test" }), {
+    checked: [] as string[],
+  });
+  verifier.verify = async (_projectId, host) => {
+    verifier.checked.push(host);
+    return { host, ...results[host] };
+  };
+  return verifier;
+}
+
+test("trusts a cached TXT proof for subdomains of its domain", async () => {
+  const verifier = verifierFor({});
+  const ownership = await verifyTargetOwnership(
+    PROJECT_ID,
+    ["https://app.example.com/", "https://example.com/"],
+    "scan-1",
+    verifier,
+    cacheWith([
+      {
+        domain: "example.com",
+        method: "dns_txt",
+        expiresAt: new Date(Date.now() + DAY_MS),
+      },
+    ])
+  );
+
+  assert.deepEqual(verifier.checked, []);
+  assert.deepEqual(ownership.unverifiedHosts, []);
+  assert.equal(ownership.isVerified("https://app.example.com/login"), true);
+});
+
+test("trusts a cached token file proof only for its own host", async () => {
+  const verifier = verifierFor({});
+  const ownership = await verifyTargetOwnership(
+    PROJECT_ID,
+    ["https://example.com/", "https://app.example.com/"],
+    "scan-1",
+    verifier,
+    cacheWith([
+      {
+        domain: "example.com",
+        method: "well_known",
+        expiresAt: new Date(Date.now() + DAY_MS),
+      },
+    ])
+  );
+
+  assert.deepEqual(verifier.checked, ["app.example.com"]);
+  assert.equal(ownership.isVerified("https://example.com/"), true);
+  assert.deepEqual(ownership.unverifiedHosts, ["app.example.com"]);
+});
+
+test("verifies again once a cached proof expires", async () => {
+  const verifier = verifierFor({
+    "example.com": { domain: "example.com", method: "dns_txt" },
+  });
+  const cache = cacheWith([
+    {
+      domain: "example.com",
+      method: "dns_txt",
+      expiresAt: new Date(Date.now() - 1),
+    },
+  ]);
+  const ownership = await verifyTargetOwnership(
+    PROJECT_ID,
+    ["https://example.com/"],
+    "scan-1",
+    verifier,
+    cache
+  );
+
+  assert.deepEqual(verifier.checked, ["example.com"]);
+  assert.deepEqual(cache.saved, ["example.com"]);
+  assert.deepEqual(ownership.unverifiedHosts, []);
+});
+
+test("downgrades unverified hosts to passive with instructions", async () => {
+  const verifier = verifierFor({
+    "example.com": { domain: "example.com", method: "well_known" },
+  });
+  const ownership = await verifyTargetOwnership(
+    PROJECT_ID,
+    ["https://example.com/", "https://other.test:8443/"],
+    "scan-1",
+    verifier,
+    cacheWith([])
+  );
+
+  assert.deepEqual(ownership.unverifiedHosts, ["other.test:8443"]);
+  assert.equal(ownership.isVerified("https://example.com/a"), true);
+  assert.equal(ownership.isVerified("https://other.test:8443/a"), false);
+  assert.equal(ownership.warnings.length, 1);
+  assert.match(
+    ownership.warnings[0] ?? "",
+    new RegExp(
+      `_launch-check\\.other\\.test .*${verifier.getToken(PROJECT_ID)}`
+    )
+  );
+});
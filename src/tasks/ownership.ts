@@ -0,0 +1,122 @@
+import {
+  DomainVerifier,
+  VERIFICATION_FILE_PATH,
+  VERIFICATION_RECORD_PREFIX,
+  VERIFICATION_VALUE_PREFIX,
+} from "@/services/domain-verification/service";
+import { logger } from "@/logger";
+import { getVerifiedDomains, saveVerifiedDomain } from "./db-operations";
+
+/** How long a successful verification is trusted */
+const VERIFICATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Which of a scan's hosts its project has proven it controls
+ */
+export interface TargetOwnership {
+  /** Whether active phases may run against a URL */
+  isVerified: (url: string) => boolean;
+  /** Hosts limited to passive phases */
+  unverifiedHosts: string[];
+  /** Warnings explaining how to verify each unverified host */
+  warnings: string[];
+}
+
+/**
+ * Where verifications are cached between scans
+ */
+export interface VerificationCache {
+  getVerifiedDomains: typeof getVerifiedDomains;
+  saveVerifiedDomain: typeof saveVerifiedDomain;
+}
+
+/**
+ * Lists a hostname and its parent domains, any of which may carry the proof
+ */
+function candidateDomains(hostname: string): string[] {
+  const labels = hostname.split(".");
+  return labels
+    .slice(0, Math.max(1, labels.length - 1))
+    .map((_, index) => labels.slice(index).join("."));
+}
+
+/**
+ * Verifies ownership of every host the scan targets, using cached
+ * verifications of the project where they have not expired. A TXT record
+ * covers its domain's subdomains; a token file only proves its own host.
+ * @param verifier - Checks hosts without a cached verification
+ * @param cache - Stores verifications (default: the database)
+ */
+export async function verifyTargetOwnership(
+  projectId: string,
+  urls: string[],
+  scanId: string,
+  verifier: DomainVerifier = new DomainVerifier(),
+  cache: VerificationCache = { getVerifiedDomains, saveVerifiedDomain }
+): Promise<TargetOwnership> {
+  const hosts = [...new Set(urls.map((url) => new URL(url).host))];
+  const verifiedHosts = new Set<string>();
+
+  for (const host of hosts) {
+    const hostname = new URL(`http://${host}`).hostname;
+    const cached = await cache.getVerifiedDomains(
+      projectId,
+      candidateDomains(hostname)
+    );
+    if (
+      cached.some(
+        (verification) =>
+          verification.expiresAt.getTime() > Date.now() &&
+          (verification.method === "dns_txt" ||
+            verification.domain === hostname)
+      )
+    ) {
+      verifiedHosts.add(host);
+      continue;
+    }
+
+    const result = await verifier.verify(projectId, host);
+    if (result.domain && result.method) {
+      await cache.saveVerifiedDomain({
+        projectId,
+        domain: result.domain,
+        method: result.method,
+        expiresAt: new Date(Date.now() + VERIFICATION_TTL_MS),
+      });
+      verifiedHosts.add(host);
+      logger.info("Verified domain ownership", {
+        scanId,
+        projectId,
+        host,
+        domain: result.domain,
+        method: result.method,
+      });
+    }
+  }
+
+  const unverifiedHosts = hosts.filter((host) => !verifiedHosts.has(host));
+  const token = verifier.getToken(projectId);
+  const warnings = unverifiedHosts.map((host) => {
+    const hostname = new URL(`http://${host}`).hostname;
+    return (
+      `Ownership of ${host} is not verified, so only passive checks ran. ` +
+      `Add a TXT record ${VERIFICATION_RECORD_PREFIX}.${hostname} with value ` +
+      `"${VERIFICATION_VALUE_PREFIX}${token}" or serve "${token}" at ` +
+      `${VERIFICATION_FILE_PATH}.`
+    );
+  });
+
+  if (unverifiedHosts.length > 0) {
+    logger.warn("Downgrading unverified hosts to passive scanning", {
+      scanId,
+      projectId,
+      unverifiedHosts,
+    });
+  }
+
+  return {
+    isVerified: (url) => verifiedHosts.has(new URL(url).host),
+    unverifiedHosts,
+    warnings,
+  };
+}
@@ -0,0 +1,186 @@
+import type { Job } from "bullmq";
+import { scanPhaseEnum } from "@/db/schema";
+import { logger } from "@/logger";
+import { updateScanProgress } from "./db-operations";
+import type { ScanProfile } from "./scan-profiles";
+
+export type ScanPhase = (typeof scanPhaseEnum.enumValues)[number];
+
+/**
+ * Callback used by scan operations to report progress within a phase
+ */
+export type ProgressCallback = (phase: ScanPhase, percent: number) => void;
+
+/** Minimum time between progress writes to the scans table */
+const PERSIST_INTERVAL_MS = 10000;
+
+/** Share of the overall figure reserved for storing findings */
+const INGEST_SHARE = 0.05;
+
+/** Share of the overall figure given to Nuclei when it runs */
+const NUCLEI_SHARE = 0.2;
+
+/**
+ * Tracks progress across targets and phases and publishes it to the job and
+ * the scans table
+ */
+export class ScanProgress {
+  private zapPhases: ScanPhase[];
+  private zapUnit = 0;
+  private zapPhase: ScanPhase | null = null;
+  private zapPhasePercent = 0;
+  private zapDone = false;
+  private nucleiPercent = 0;
+  private ingestStarted = false;
+  private ingestPercent = 0;
+  private targetUrl: string | null = null;
+  private lastPublished = -1;
+  private lastPersistedAt = 0;
+  private lastPersistedPhase: ScanPhase | null = null;
+  private lastPhase: ScanPhase | null = null;
+
+  /**
+   * @param job - Job whose progress is updated
+   * @param scanId - Scan whose row is updated
+   * @param profile - Profile deciding which phases run
+   * @param zapUnits - Number of ZAP work units (targets plus API scan)
+   * @param onPhaseChange - Called whenever the current phase changes
+   */
+  constructor(
+    private job: Job,
+    private scanId: string,
+    private profile: ScanProfile,
+    private zapUnits: number,
+    private onPhaseChange?: (phase: ScanPhase) => void
+  ) {
+    const { engines } = profile;
+    this.zapPhases = [
+      ...(engines.katana ? (["crawl"] as const) : []),
+      ...(engines.zapSpider ? (["spider"] as const) : []),
+      ...(engines.zapAjaxSpider ? (["ajax_spider"] as const) : []),
+      ...(engines.zapActiveScan ? (["active_scan"] as const) : []),
+    ];
+  }
+
+  /**
+   * Reports progress of a ZAP-side phase for one work unit
+   */
+  reportZap(
+    unit: number,
+    phase: ScanPhase,
+    percent: number,
+    targetUrl?: string
+  ): void {
+    this.zapUnit = unit;
+    this.zapPhase = phase;
+    this.zapPhasePercent = percent;
+    if (targetUrl) this.targetUrl = targetUrl;
+    this.publish();
+  }
+
+  /**
+   * Marks all ZAP-side work as done
+   */
+  completeZap(): void {
+    this.zapDone = true;
+    this.publish();
+  }
+
+  /**
+   * Reports progress of the Nuclei scan
+   */
+  reportNuclei(percent: number): void {
+    this.nucleiPercent = percent;
+    this.publish();
+  }
+
+  /**
+   * Reports progress of storing findings
+   */
+  reportIngest(percent: number): void {
+    this.ingestStarted = true;
+    this.ingestPercent = percent;
+    this.publish(true);
+  }
+
+  /**
+   * Builds a progress callback bound to one ZAP work unit
+   */
+  forUnit(unit: number, targetUrl?: string): ProgressCallback {
+    return (phase, percent) => this.reportZap(unit, phase, percent, targetUrl);
+  }
+
+  private get currentPhase(): ScanPhase {
+    if (this.ingestStarted) return "ingest";
+    if (this.zapDone || !this.zapPhase) {
+      return this.profile.engines.nuclei ? "nuclei" : "ingest";
+    }
+    return this.zapPhase;
+  }
+
+  private get overallPercent(): number {
+    const nucleiShare = this.profile.engines.nuclei ? NUCLEI_SHARE : 0;
+    const zapShare = 1 - INGEST_SHARE - nucleiShare;
+
+    let zapFraction = 1;
+    if (!this.zapDone && this.zapUnits > 0 && this.zapPhases.length > 0) {
+      const phaseIndex = Math.max(
+        0,
+        this.zapPhases.indexOf(this.zapPhase ?? this.zapPhases[0]!)
+      );
+      const unitFraction =
+        (phaseIndex + this.zapPhasePercent / 100) / this.zapPhases.length;
+      zapFraction = Math.min(1, (this.zapUnit + unitFraction) / this.zapUnits);
+    }
+
+    const overall =
+      zapShare * zapFraction +
+      nucleiShare * (this.nucleiPercent / 100) +
+      INGEST_SHARE * (this.ingestPercent / 100);
+    return Math.min(100, Math.floor(overall * 100));
+  }
+
+  /**
+   * Publishes progress to the job and, throttled, to the scans table
+   */
+  private publish(force = false): void {
+    const percent = this.overallPercent;
+    const phase = this.currentPhase;
+
+    if (phase !== this.lastPhase) {
+      this.lastPhase = phase;
+      this.onPhaseChange?.(phase);
+    }
+
+    if (percent !== this.lastPublished) {
+      this.lastPublished = percent;
+      this.job
+        .updateProgress({ percent, phase, targetUrl: this.targetUrl })
+        .catch((error) => this.logFailure(error));
+    }
+
+    const now = Date.now();
+    if (
+      !force &&
+      phase === this.lastPersistedPhase &&
+      now - this.lastPersistedAt < PERSIST_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    this.lastPersistedAt = now;
+    this.lastPersistedPhase = phase;
+    updateScanProgress(this.scanId, {
+      currentPhase: phase,
+      progressPercent: percent,
+      currentTargetUrl: this.targetUrl,
+    }).catch((error) => this.logFailure(error));
+  }
+
+  private logFailure(error: unknown): void {
+    logger.warn("Failed to publish scan progress", {
+      scanId: this.scanId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
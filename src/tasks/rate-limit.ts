@@ -0,0 +1,185 @@
+import { redis } from "@/redis";
+import { env } from "@/env.mjs";
+import { logger } from "@/logger";
+
+/** How long a claim lives without being renewed */
+const CLAIM_TTL_MS = 60000;
+
+/** How often a running scan renews its claims */
+const CLAIM_RENEW_INTERVAL_MS = 20000;
+
+/** Smallest rate worth starting a scan with */
+const MIN_CLAIM_RATE = 5;
+
+/**
+ * Claims part of the budget of every host, dropping expired claims first.
+ * A host's budget is a hash of claim ID to "rate:expiresAt"; the caller's
+ * own claim never counts against it, so the script also renews claims.
+ * Returns the granted rate, or 0 if any host has less than the minimum left.
+ */
+const CLAIM_SCRIPT = `
+local claimId = ARGV[1]
+local grant = tonumber(ARGV[2])
+local minRate = tonumber(ARGV[3])
+local capacity = tonumber(ARGV[4])
+local now = tonumber(ARGV[5])
+local ttl = tonumber(ARGV[6])
+
+for _, key in ipairs(KEYS) do
+  local used = 0
+  local claims = redis.call("HGETALL", key)
+  for i = 1, #claims, 2 do
+    local rate, expiresAt = string.match(claims[i + 1], "^(%d+):(%d+)$")
+    if tonumber(expiresAt) <= now then
+      redis.call("HDEL", key, claims[i])
+    elseif claims[i] ~= claimId then
+      used = used + tonumber(rate)
+    end
+  end
+  grant = math.min(grant, capacity - used)
+end
+
+if grant < minRate then
+  return 0
+end
+
+for _, key in ipairs(KEYS) do
+  redis.call("HSET", key, claimId, grant .. ":" .. (now + ttl))
+  redis.call("PEXPIRE", key, ttl)
+end
+return grant
+`;
+
+export class HostBudgetLostError extends Error {
+  readonly code = "host_budget_lost";
+
+  constructor(scanId: string) {
+    super(`Scan ${scanId} lost its host rate claim`);
+    this.name = "HostBudgetLostError";
+  }
+}
+
+/**
+ * Requests-per-second budget a scan holds on its hosts while it runs
+ */
+export interface HostRateClaim {
+  /** Requests per second the scan may send to each host */
+  rate: number;
+  /** Hosts the budget is held on */
+  hosts: ReadonlySet<string>;
+  /** Aborted with HostBudgetLostError once the claim cannot be renewed */
+  signal: AbortSignal;
+  /**
+   * Claims the same rate on more hosts, such as ones found while crawling
+   * @returns Whether every host had the rate left; none is claimed if not
+   */
+  extend: (hosts: string[]) => Promise<boolean>;
+  /** Gives the budget back to other scans */
+  release: () => Promise<void>;
+}
+
+/**
+ * Redis key holding the claims on a host's budget
+ */
+export function hostBudgetKey(host: string): string {
+  return `ratelimit:host:${host.toLowerCase()}`;
+}
+
+/**
+ * Runs the claim script for a set of hosts
+ * @returns The granted rate, or 0 if a host has less than minRate left
+ */
+async function claim(
+  keys: string[],
+  claimId: string,
+  requestedRate: number,
+  minRate: number
+): Promise<number> {
+  const granted = await redis.eval(
+    CLAIM_SCRIPT,
+    keys.length,
+    ...keys,
+    claimId,
+    requestedRate,
+    minRate,
+    env.HOST_RATE_LIMIT,
+    Date.now(),
+    CLAIM_TTL_MS
+  );
+  return Number(granted);
+}
+
+/**
+ * Claims a share of each host's requests-per-second budget, which every
+ * worker draws from so concurrent scans of one host stay under
+ * HOST_RATE_LIMIT in total. The claim is renewed at the granted rate until
+ * released; if renewal fails for longer than the claim lives, or another
+ * scan took the budget meanwhile, the claim's signal is aborted.
+ * @param hosts - Hosts the scan sends requests to
+ * @param requestedRate - Rate configured for the scan
+ * @param claimId - Identifies the scan holding the claim
+ * @returns The claim, or null if any host's budget is saturated
+ */
+export async function claimHostRate(
+  hosts: string[],
+  requestedRate: number,
+  claimId: string
+): Promise<HostRateClaim | null> {
+  const claimedHosts = new Set(hosts.map((host) => host.toLowerCase()));
+  const keys = () => [...claimedHosts].map(hostBudgetKey);
+  const rate = await claim(
+    keys(),
+    claimId,
+    requestedRate,
+    Math.min(MIN_CLAIM_RATE, requestedRate)
+  );
+  if (rate === 0) return null;
+
+  const controller = new AbortController();
+  let renewedAt = Date.now();
+  const lose = (reason: string) => {
+    logger.warn("Host rate claim lost", { claimId, reason });
+    clearInterval(interval);
+    controller.abort(new HostBudgetLostError(claimId));
+  };
+
+  const interval = setInterval(async () => {
+    try {
+      // Renewal must keep the full rate the scan's engines run at
+      if ((await claim(keys(), claimId, rate, rate)) === 0) {
+        lose("budget taken by other scans");
+        return;
+      }
+      renewedAt = Date.now();
+    } catch (error) {
+      logger.warn("Failed to renew host rate claim", {
+        claimId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      if (Date.now() - renewedAt >= CLAIM_TTL_MS) lose("claim expired");
+    }
+  }, CLAIM_RENEW_INTERVAL_MS);
+
+  return {
+    rate,
+    hosts: claimedHosts,
+    signal: controller.signal,
+    extend: async (moreHosts) => {
+      const added = [
+        ...new Set(moreHosts.map((host) => host.toLowerCase())),
+      ].filter((host) => !claimedHosts.has(host));
+      if (added.length === 0) return true;
+      if ((await claim(added.map(hostBudgetKey), claimId, rate, rate)) === 0) {
+        return false;
+      }
+      for (const host of added) claimedHosts.add(host);
+      return true;
+    },
+    release: async () => {
+      clearInterval(interval);
+      for (const key of keys()) {
+        await redis.hdel(key, claimId);
+      }
+    },
+  };
+}
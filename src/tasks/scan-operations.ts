@@ -1,75 +1,1069 @@
-import { ZapScanner } from "@/services/zap/client";
+import axios from "axios";
+import { ZapUnavailableError } from "@/services/zap/exceptions";
+import type { ZapLease } from "@/services/zap/pool";
+import type { ZapScanner } from "@/services/zap/client";
+import { redis } from "@/redis";
+import { zapPool } from "@/zap";
+import { scanPhaseDuration } from "@/metrics";
+import { NucleiService } from "@/services/nuclei/service";
+import { KatanaService } from "@/services/katana/service";
+import { ApiDefinitionService } from "@/services/api-definitions/service";
+import { TargetValidator } from "@/services/target-validation/service";
+import { TargetValidationError } from "@/services/target-validation/exceptions";
+import type {
+  ApiDefinition,
+  ApiRequest,
+} from "@/services/api-definitions/types";
+import type { NucleiFinding } from "@/services/nuclei/types";
 import { logger } from "@/logger";
 import { waitForZapOperation } from "@/services/zap/utils";
-import type { ZapAlert } from "./types";
+import type {
+  ScanAuthentication,
+  ScanContext,
+  ScanScope,
+  ScanZapLease,
+  ZapAlert,
+} from "./types";
+import type { ScanProfile } from "./scan-profiles";
+import type { ProgressCallback, ScanPhase } from "./progress";
+import type { ScanCheckpoints } from "./checkpoints";
+import { ScopeMatcher, anchorRegex } from "./scope";
+import { lockAjaxSpider } from "./ajax-spider-lock";
+import type { HostRateClaim } from "./rate-limit";
+import { appendScanWarnings } from "./db-operations";
+import { ScanInterruptedError } from "./cancellation";
 
-const zap = new ZapScanner();
+const nuclei = new NucleiService();
+const katana = new KatanaService();
+const apiDefinitions = new ApiDefinitionService();
+const targetValidator = new TargetValidator();
+
+const ZAP_POLL_INTERVAL_MS = 2000;
+
+/** How long a scan waits for another scan's AJAX spider on its instance */
+const AJAX_SPIDER_LOCK_WAIT_MS = 30 * 60 * 1000;
 
 /**
- * Creates a new ZAP context for the scan and includes target URLs
+ * Converts a time budget in minutes into a number of status polls
  */
-export async function createScanContext(
+function pollBudget(minutes: number): number {
+  return Math.ceil((minutes * 60 * 1000) / ZAP_POLL_INTERVAL_MS);
+}
+
+/**
+ * Runs an engine within a time budget, reporting running out of it as a
+ * timeout rather than as the scan being aborted
+ * @param run - Runs the engine, which must stop once the signal aborts
+ */
+async function withTimeBudget<T>(
+  operationType: string,
+  budgetMinutes: number,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const budget = AbortSignal.timeout(budgetMinutes * 60 * 1000);
+  try {
+    return await run(signal ? AbortSignal.any([signal, budget]) : budget);
+  } catch (error) {
+    if (budget.aborted && !signal?.aborted) {
+      throw new Error(
+        `${operationType} timed out after ${budgetMinutes} minutes`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Waits for a ZAP operation, reporting its percentage as it goes, and stops
+ * it in ZAP if the scan is aborted. A worker shutdown leaves it running so
+ * the next attempt can reattach to it.
+ */
+async function waitForOrStop(
+  getStatus: () => Promise<{ status: any; isComplete: boolean }>,
+  stop: () => Promise<void>,
+  operationType: string,
+  scanId: string,
+  targetUrl: string,
+  budgetMinutes: number,
+  signal?: AbortSignal,
+  onProgress?: (percent: number) => void
+): Promise<void> {
+  const pollStatus = async () => {
+    const result = await getStatus();
+    const percent = Number(result.status);
+    if (onProgress && Number.isFinite(percent)) onProgress(percent);
+    return result;
+  };
+
+  try {
+    await waitForZapOperation(
+      pollStatus,
+      operationType,
+      scanId,
+      targetUrl,
+      pollBudget(budgetMinutes),
+      ZAP_POLL_INTERVAL_MS,
+      signal
+    );
+  } catch (error) {
+    if (signal?.aborted && !(signal.reason instanceof ScanInterruptedError)) {
+      logger.info("Stopping ZAP operation", {
+        scanId,
+        targetUrl,
+        operationType,
+      });
+      await stop().catch((stopError) =>
+        logger.error("Error stopping ZAP operation", {
+          scanId,
+          operationType,
+          error:
+            stopError instanceof Error ? stopError.message : "Unknown error",
+        })
+      );
+    }
+    throw error;
+  }
+}
+
+/** A retried scan goes back to its instance for as long as this */
+const ZAP_LEASE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Redis key remembering which ZAP instance a scan ran on
+ */
+function zapLeaseKey(scanId: string): string {
+  return `scan:zap-instance:${scanId}`;
+}
+
+/**
+ * Leases a ZAP instance for the scan, preferring the one a previous attempt
+ * ran on so its context can be resumed
+ * @param exclusive - Whether the scan needs the instance to itself
+ * @throws {ZapPoolExhaustedError} If no healthy instance has capacity
+ */
+export async function leaseZapInstance(
   scanId: string,
+  exclusive = false
+): Promise<ScanZapLease> {
+  const previousInstanceId = await redis.get(zapLeaseKey(scanId));
+  const lease = await zapPool.lease(
+    scanId,
+    previousInstanceId ?? undefined,
+    exclusive
+  );
+  await redis.set(
+    zapLeaseKey(scanId),
+    lease.instanceId,
+    "EX",
+    ZAP_LEASE_TTL_SECONDS
+  );
+  logger.info("Leased ZAP instance", {
+    scanId,
+    instanceId: lease.instanceId,
+    resumedInstance: lease.instanceId === previousInstanceId,
+  });
+
+  return {
+    ...lease,
+    release: (keepInstance = false) => {
+      lease.release();
+      if (!keepInstance) redis.del(zapLeaseKey(scanId)).catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Reports a ZAP request that got no response as ZapUnavailableError if the
+ * scan's instance has stopped answering, so an engine outage is told apart
+ * from a failing target
+ * @returns The error to fail the scan with
+ */
+export async function toEngineError(
+  error: unknown,
+  lease: ZapLease
+): Promise<unknown> {
+  if (!axios.isAxiosError(error) || error.response) return error;
+  if (await zapPool.isReachable(lease.instanceId)) return error;
+
+  return new ZapUnavailableError(
+    `ZAP instance ${lease.instanceId} is unavailable: ${error.message}`
+  );
+}
+
+/**
+ * Builds the scan's scope, excluding URLs that address internal networks by
+ * IP so engines following links on their own never request them
+ */
+export function buildScanScope(
+  scope: ScanScope | undefined,
   targetUrls: string[]
-): Promise<string> {
+): ScopeMatcher {
+  return new ScopeMatcher(
+    scope,
+    targetUrls,
+    targetValidator.blockedUrlRegexes()
+  );
+}
+
+/**
+ * Checks that none of the scan's targets, nor the hosts its scope rules
+ * name, resolve to internal networks
+ * @throws {TargetValidationError} If any target or scope host must not be
+ * scanned
+ */
+export async function validateScanTargets(
+  targetUrls: string[],
+  scope: ScopeMatcher,
+  scanId: string
+): Promise<void> {
+  await targetValidator.validateAll(targetUrls);
+  for (const host of scope.hosts) {
+    try {
+      await targetValidator.validate(`http://${host}/`);
+    } catch (error) {
+      // Scope hosts, such as a wildcard's parent, need not exist themselves
+      if (
+        !(error instanceof TargetValidationError) ||
+        error.code !== "target_unresolvable"
+      ) {
+        throw error;
+      }
+    }
+  }
+  logger.info("Validated scan targets", {
+    scanId,
+    targets: targetUrls.length,
+    scopeHosts: scope.hosts.length,
+  });
+}
+
+/**
+ * Name of the ZAP rate limit rule a scan holds on a host
+ */
+function rateLimitRuleName(scanId: string, host: string): string {
+  return `scan-${scanId}:${host}`;
+}
+
+/**
+ * Caps what ZAP sends to a host at the scan's rate. The rule covers every
+ * ZAP component, including the spiders and seeded requests, and is keyed by
+ * scan so scans sharing the instance keep their own.
+ */
+async function throttleZapHost(
+  context: Pick<ScanContext, "zap" | "zapRateLimit">,
+  host: string,
+  scanId: string
+): Promise<void> {
+  const rule = rateLimitRuleName(scanId, host);
+  // A previous attempt of the job may have left the rule behind
+  await context.zap.removeRateLimitRule(rule).catch(() => undefined);
+  await context.zap.addRateLimitRule(
+    rule,
+    new URL(`http://${host}`).hostname,
+    context.zapRateLimit
+  );
+}
+
+/**
+ * Claims the scan's rate on hosts it reaches beyond its targets and
+ * throttles ZAP for them
+ * @returns Whether the hosts may be scanned; false if their budget is taken
+ */
+export async function claimScanHosts(
+  context: ScanContext,
+  hosts: string[],
+  scanId: string
+): Promise<boolean> {
+  const added = [...new Set(hosts.map((host) => host.toLowerCase()))].filter(
+    (host) => !context.hostRates.hosts.has(host)
+  );
+  if (added.length === 0) return true;
+  if (!(await context.hostRates.extend(added))) return false;
+
+  for (const host of added) {
+    await throttleZapHost(context, host, scanId);
+  }
+  logger.info("Claimed rate budget on additional hosts", {
+    scanId,
+    hosts: added,
+  });
+  return true;
+}
+
+/**
+ * Creates the ZAP context for the scan and applies its scope, reusing the
+ * context left behind by a previous attempt of the job
+ */
+export async function createScanContext(
+  scanId: string,
+  { zap, instanceId }: ZapLease,
+  targetUrls: string[],
+  scope: ScopeMatcher,
+  hostRates: HostRateClaim,
+  zapRateLimit: number,
+  authentication?: ScanAuthentication
+): Promise<ScanContext> {
   const contextName = `scan-${scanId}`;
-  await zap.createContext(contextName);
+  let contextId: string;
+  let resumed = false;
+  try {
+    contextId = await zap.getContextId(contextName);
+    resumed = true;
+    logger.info("Reusing existing ZAP context", { scanId, contextName });
+  } catch {
+    contextId = await zap.createContext(contextName);
+  }
+
+  for (const regex of scope.includeRegexes) {
+    await zap.includeInContext(contextName, regex);
+  }
+  for (const regex of scope.excludeRegexes) {
+    await zap.excludeFromContext(contextName, regex);
+  }
+
+  const context: ScanContext = {
+    zap,
+    instanceId,
+    contextName,
+    contextId,
+    resumed,
+    scope,
+    hostRates,
+    zapRateLimit,
+  };
+  for (const host of hostRates.hosts) {
+    await throttleZapHost(context, host, scanId);
+  }
+  if (authentication) {
+    await configureAuthentication(context, authentication, targetUrls);
+  }
+
+  return context;
+}
+
+/**
+ * Configures the ZAP context to authenticate as the scan's user
+ */
+async function configureAuthentication(
+  context: ScanContext,
+  authentication: ScanAuthentication,
+  targetUrls: string[]
+): Promise<void> {
+  const { zap, contextName, contextId } = context;
+
+  if (authentication.type === "header") {
+    // Static headers need no login, so they are injected into every request
+    // to the targets. Replacer rules are instance-wide, which is why these
+    // scans lease their instance exclusively.
+    const origins = targetUrls.map((url) =>
+      new URL(url).origin.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    );
+    context.headerRule = `${contextName}-auth`;
+    if (context.resumed) {
+      await zap.removeRule(context.headerRule).catch(() => undefined);
+    }
+    await zap.addHeaderRule(
+      context.headerRule,
+      authentication.headerName,
+      authentication.headerValue,
+      // The origin must end where the URL's host and port do
+      `^(?:${origins.join("|")})(?:[/?#].*)?$`
+    );
+    logger.info("Configured header authentication", {
+      contextName,
+      headerName: authentication.headerName,
+    });
+    return;
+  }
+
+  if (authentication.type === "basic") {
+    const methodParams = new URLSearchParams({
+      hostname: authentication.hostname,
+    });
+    if (authentication.realm) methodParams.set("realm", authentication.realm);
+    if (authentication.port) {
+      methodParams.set("port", authentication.port.toString());
+    }
+    await zap.setAuthenticationMethod(
+      contextId,
+      "httpAuthentication",
+      methodParams.toString()
+    );
+    await zap.setSessionManagementMethod(
+      contextId,
+      "httpAuthSessionManagement"
+    );
+  } else {
+    const { usernameField, passwordField } = authentication;
+    const loginRequestData =
+      authentication.type === "json"
+        ? JSON.stringify({
+            [usernameField]: "{%username%}",
+            [passwordField]: "{%password%}",
+          })
+        : `${encodeURIComponent(
+            usernameField
+          )}={%username%}&${encodeURIComponent(passwordField)}={%password%}`;
+    const methodParams = new URLSearchParams({
+      loginUrl: authentication.loginUrl,
+      loginRequestData,
+    });
+    await zap.setAuthenticationMethod(
+      contextId,
+      authentication.type === "json"
+        ? "jsonBasedAuthentication"
+        : "formBasedAuthentication",
+      methodParams.toString()
+    );
+    await zap.setSessionManagementMethod(
+      contextId,
+      "cookieBasedSessionManagement"
+    );
+  }
+
+  if (authentication.loggedInIndicator) {
+    await zap.setLoggedInIndicator(contextId, authentication.loggedInIndicator);
+  }
+  if (authentication.loggedOutIndicator) {
+    await zap.setLoggedOutIndicator(
+      contextId,
+      authentication.loggedOutIndicator
+    );
+  }
+
+  const userName = `${contextName}-user`;
+  const existingUser = context.resumed
+    ? (await zap.getUsers(contextId)).find((user) => user.name === userName)
+    : undefined;
+  const userId = existingUser?.id ?? (await zap.newUser(contextId, userName));
+  const credentials = new URLSearchParams({
+    username: authentication.username,
+    password: authentication.password,
+  });
+  await zap.setAuthenticationCredentials(
+    contextId,
+    userId,
+    credentials.toString()
+  );
+  await zap.setUserEnabled(contextId, userId, true);
+  context.userId = userId;
+  context.userName = userName;
+
+  logger.info("Configured context user authentication", {
+    contextName,
+    type: authentication.type,
+    userId,
+  });
+}
+
+/**
+ * Pushes a request into ZAP's site tree
+ */
+async function seedRequest(
+  zap: ZapScanner,
+  request: ApiRequest
+): Promise<void> {
+  const method = request.method.toUpperCase();
+  if (
+    method === "GET" &&
+    !request.body &&
+    Object.keys(request.headers).length === 0
+  ) {
+    await zap.accessUrl(request.url);
+    return;
+  }
+
+  const headers = {
+    Host: new URL(request.url).host,
+    ...request.headers,
+    ...(request.body
+      ? { "Content-Length": Buffer.byteLength(request.body).toString() }
+      : {}),
+  };
+  const headerLines = Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}\r\n`)
+    .join("");
+  await zap.sendRequest(
+    `${method} ${request.url} HTTP/1.1\r\n${headerLines}\r\n${
+      request.body ?? ""
+    }`
+  );
+}
 
-  for (const url of targetUrls) {
-    await zap.includeInContext(contextName, url);
+/**
+ * Crawls a target URL with Katana, within the profile's crawl budget, and
+ * seeds ZAP with the in-scope endpoints
+ * @returns Number of seeded URLs per discovery source
+ */
+export async function crawlTargetUrl(
+  targetUrl: string,
+  scanId: string,
+  options: ScanProfile["katana"],
+  context: ScanContext,
+  signal?: AbortSignal
+): Promise<Record<string, number>> {
+  const { zap, scope } = context;
+  logger.info("Starting Katana crawl", { scanId, targetUrl });
+  const result = await withTimeBudget(
+    "Katana crawl",
+    options.maxDuration,
+    signal,
+    (crawlSignal) =>
+      katana.crawlTarget(
+        [targetUrl],
+        {
+          depth: options.depth,
+          timeout: options.timeout,
+          rateLimit: options.rateLimit,
+          crawlJs: true,
+          crawlRobots: true,
+          crawlSitemap: true,
+          crawlScope: scope.includeRegexes.map(anchorRegex),
+          crawlOutScope: scope.excludeRegexes.map(anchorRegex),
+        },
+        crawlSignal
+      )
+  );
+
+  const discoverySources: Record<string, number> = {};
+  // Hosts other than the target are only seeded if their budget allows
+  const originChecks = new Map<string, Promise<boolean>>();
+  const skippedHosts = new Set<string>();
+
+  for (const endpoint of result.endpoints) {
+    signal?.throwIfAborted();
+    try {
+      if (!scope.isInScope(endpoint.url)) continue;
+      // In-scope hosts other than the target are checked before ZAP visits them
+      const { origin, host } = new URL(endpoint.url);
+      if (!originChecks.has(origin)) {
+        originChecks.set(
+          origin,
+          targetValidator
+            .validate(endpoint.url)
+            .then(() => claimScanHosts(context, [host], scanId))
+        );
+      }
+      if (!(await originChecks.get(origin))) {
+        skippedHosts.add(host);
+        continue;
+      }
+      await seedRequest(zap, {
+        method: endpoint.method,
+        url: endpoint.url,
+        headers: {},
+      });
+      const source = endpoint.tag || "unknown";
+      discoverySources[source] = (discoverySources[source] ?? 0) + 1;
+    } catch (error) {
+      logger.warn("Failed to seed endpoint into ZAP", {
+        scanId,
+        url: endpoint.url,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  if (skippedHosts.size > 0) {
+    await appendScanWarnings(scanId, [
+      `Crawled endpoints skipped, host rate budget in use by other scans: ${[
+        ...skippedHosts,
+      ].join(", ")}`,
+    ]);
   }
 
-  return contextName;
+  logger.info("Katana crawl completed", {
+    scanId,
+    targetUrl,
+    totalEndpoints: result.total_endpoints,
+    discoverySources,
+  });
+  return discoverySources;
 }
 
 /**
- * Runs spider and active scans for a target URL
+ * Reattaches to the ZAP scan recorded for a phase if ZAP still knows it,
+ * otherwise starts a new one and records its ID
+ * @returns The ZAP scan ID to wait for
+ */
+async function startOrReattach(
+  checkpoints: ScanCheckpoints,
+  context: ScanContext,
+  target: string,
+  phase: ScanPhase,
+  scanId: string,
+  getStatus: (zapScanId: string) => Promise<unknown>,
+  start: () => Promise<string>
+): Promise<string> {
+  // ZAP scan IDs restart from zero with the daemon, so only trust them while
+  // the context from the previous attempt is still there
+  const zapScanId = context.resumed
+    ? checkpoints.get(target, phase)?.zapScanId
+    : undefined;
+  if (zapScanId) {
+    try {
+      await getStatus(zapScanId);
+      logger.info("Reattached to running ZAP scan", {
+        scanId,
+        target,
+        phase,
+        zapScanId,
+      });
+      return zapScanId;
+    } catch (error) {
+      logger.warn("ZAP scan from previous attempt is gone, restarting", {
+        scanId,
+        target,
+        phase,
+        zapScanId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const newZapScanId = await start();
+  await checkpoints.start(target, phase, newZapScanId);
+  return newZapScanId;
+}
+
+/**
+ * Runs crawl, spider and active scans for a target URL, skipping phases a
+ * previous attempt of the job completed
+ * @returns Number of seeded URLs per discovery source
  */
 export async function scanTargetUrl(
   targetUrl: string,
   scanId: string,
-  contextName: string
-): Promise<void> {
+  context: ScanContext,
+  profile: ScanProfile,
+  checkpoints: ScanCheckpoints,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<Record<string, number>> {
+  const { zap, contextName, contextId, userId, userName } = context;
+  const discoverySources: Record<string, number> = {};
+
+  // Checked again right before ZAP sends anything, in case DNS changed
+  await targetValidator.validate(targetUrl);
+
+  const addSources = (sources: Record<string, number>) => {
+    for (const [source, count] of Object.entries(sources)) {
+      discoverySources[source] = (discoverySources[source] ?? 0) + count;
+    }
+  };
+
+  // Crawl with Katana so the active scan also covers endpoints the spider misses
+  if (profile.engines.katana) {
+    const checkpoint = checkpoints.get(targetUrl, "crawl");
+    if (checkpoint?.status === "completed") {
+      addSources((checkpoint.data as Record<string, number> | null) ?? {});
+      onProgress?.("crawl", 100);
+    } else {
+      onProgress?.("crawl", 0);
+      const endTimer = scanPhaseDuration.startTimer({ phase: "crawl" });
+      let crawlSources: Record<string, number> = {};
+      try {
+        crawlSources = await crawlTargetUrl(
+          targetUrl,
+          scanId,
+          profile.katana,
+          context,
+          signal
+        );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn("Katana crawl failed, continuing with ZAP spider only", {
+          scanId,
+          targetUrl,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+      addSources(crawlSources);
+      await checkpoints.complete(targetUrl, "crawl", crawlSources);
+      endTimer();
+    }
+  }
+
   // Spider scan
-  logger.info("Starting spider scan", { scanId, targetUrl, contextName });
-  const spiderId = await zap.startSpider(targetUrl, { scanId, contextName });
-  await waitForZapOperation(
-    () => zap.getSpiderStatus(spiderId),
-    "spider",
-    scanId,
-    targetUrl
-  );
-  logger.info("Spider scan completed", { scanId, targetUrl });
+  if (profile.engines.zapSpider) {
+    if (checkpoints.isCompleted(targetUrl, "spider")) {
+      onProgress?.("spider", 100);
+    } else {
+      onProgress?.("spider", 0);
+      const endTimer = scanPhaseDuration.startTimer({ phase: "spider" });
+      logger.info("Starting spider scan", { scanId, targetUrl, contextName });
+      const spiderId = await startOrReattach(
+        checkpoints,
+        context,
+        targetUrl,
+        "spider",
+        scanId,
+        (id) => zap.getSpiderStatus(id),
+        () =>
+          userId
+            ? zap.startSpiderAsUser(targetUrl, {
+                contextId,
+                userId,
+                maxChildren: profile.zap.spiderMaxChildren,
+              })
+            : zap.startSpider(targetUrl, {
+                scanId,
+                contextName,
+                maxChildren: profile.zap.spiderMaxChildren,
+              })
+      );
+      await waitForOrStop(
+        () => zap.getSpiderStatus(spiderId),
+        () => zap.stopSpider(spiderId),
+        "spider",
+        scanId,
+        targetUrl,
+        profile.timeBudgets.spider,
+        signal,
+        (percent) => onProgress?.("spider", percent)
+      );
+      await checkpoints.complete(targetUrl, "spider");
+      endTimer();
+      logger.info("Spider scan completed", { scanId, targetUrl });
+    }
+  }
+
+  // AJAX spider for routes only reachable by executing JavaScript
+  if (profile.engines.zapAjaxSpider) {
+    const checkpoint = checkpoints.get(targetUrl, "ajax_spider");
+    if (checkpoint?.status === "completed") {
+      addSources((checkpoint.data as Record<string, number> | null) ?? {});
+      onProgress?.("ajax_spider", 100);
+    } else {
+      const options = profile.zap.ajaxSpider;
+      const lock = await lockAjaxSpider(
+        context.instanceId,
+        scanId,
+        AJAX_SPIDER_LOCK_WAIT_MS,
+        signal
+      );
+      if (!lock) {
+        logger.warn("AJAX spider busy with another scan, skipping", {
+          scanId,
+          targetUrl,
+          instanceId: context.instanceId,
+        });
+        await appendScanWarnings(scanId, [
+          `AJAX spider skipped for ${targetUrl}: another scan kept the ZAP instance's spider busy`,
+        ]);
+        onProgress?.("ajax_spider", 100);
+      } else {
+        try {
+          onProgress?.("ajax_spider", 0);
+          const endTimer = scanPhaseDuration.startTimer({
+            phase: "ajax_spider",
+          });
+
+          // ZAP runs one AJAX spider per instance. A running one is ours only
+          // if a previous attempt started it under the lock we still hold;
+          // otherwise a scan that died left it behind.
+          const running =
+            (await zap.getAjaxSpiderStatus()).status === "running";
+          const reattach =
+            running &&
+            lock.held &&
+            context.resumed &&
+            checkpoint?.status === "running";
+          if (reattach) {
+            logger.info("Reattached to running AJAX spider", {
+              scanId,
+              targetUrl,
+            });
+          } else {
+            if (running) {
+              logger.warn("Stopping AJAX spider left by another scan", {
+                scanId,
+                instanceId: context.instanceId,
+              });
+              await zap.stopAjaxSpider();
+            }
+            logger.info("Starting AJAX spider", {
+              scanId,
+              targetUrl,
+              contextName,
+              browser: options.browser,
+            });
+            await zap.setAjaxSpiderOptions({
+              browserId: options.browser,
+              maxDuration: options.maxDuration,
+              maxCrawlDepth: options.maxCrawlDepth,
+              maxCrawlStates: options.maxCrawlStates,
+            });
+            await zap.startAjaxSpider(targetUrl, { contextName, userName });
+            await checkpoints.start(targetUrl, "ajax_spider");
+          }
+          await waitForOrStop(
+            () => zap.getAjaxSpiderStatus(),
+            () => zap.stopAjaxSpider(),
+            "AJAX spider",
+            scanId,
+            targetUrl,
+            // Allow a minute of slack beyond ZAP's own duration limit
+            options.maxDuration + 1,
+            signal
+          );
+          const resultCount = await zap.getAjaxSpiderResultCount();
+          addSources({ ajaxSpider: resultCount });
+          await checkpoints.complete(targetUrl, "ajax_spider", {
+            ajaxSpider: resultCount,
+          });
+          endTimer();
+          logger.info("AJAX spider completed", {
+            scanId,
+            targetUrl,
+            resultCount,
+          });
+        } finally {
+          await lock.release().catch(() => undefined);
+        }
+      }
+    }
+  }
 
   // Active scan
-  logger.info("Starting active scan", { scanId, targetUrl, contextName });
-  const activeScanId = await zap.startActiveScan(targetUrl, {
+  if (profile.engines.zapActiveScan) {
+    if (checkpoints.isCompleted(targetUrl, "active_scan")) {
+      onProgress?.("active_scan", 100);
+    } else {
+      onProgress?.("active_scan", 0);
+      const endTimer = scanPhaseDuration.startTimer({ phase: "active_scan" });
+      logger.info("Starting active scan", { scanId, targetUrl, contextName });
+      const activeScanId = await startOrReattach(
+        checkpoints,
+        context,
+        targetUrl,
+        "active_scan",
+        scanId,
+        (id) => zap.getScanStatus(id),
+        () =>
+          userId
+            ? zap.startActiveScanAsUser(targetUrl, {
+                contextId,
+                userId,
+                scanPolicyName: profile.zap.scanPolicyName,
+              })
+            : zap.startActiveScan(targetUrl, {
+                scanId,
+                contextName,
+                scanPolicyName: profile.zap.scanPolicyName,
+              })
+      );
+      await waitForOrStop(
+        () => zap.getScanStatus(activeScanId),
+        () => zap.stopScan(activeScanId),
+        "active scan",
+        scanId,
+        targetUrl,
+        profile.timeBudgets.activeScan,
+        signal,
+        (percent) => onProgress?.("active_scan", percent)
+      );
+      await checkpoints.complete(targetUrl, "active_scan");
+      endTimer();
+      logger.info("Active scan completed", { scanId, targetUrl });
+    }
+  }
+
+  return discoverySources;
+}
+
+/**
+ * Expands the scan's API definition into concrete requests
+ * @returns Generated requests and warnings for anything that failed to parse
+ */
+export async function loadApiRequests(
+  definition: ApiDefinition,
+  targetUrls: string[],
+  scanId: string
+): Promise<{ requests: ApiRequest[]; warnings: string[] }> {
+  try {
+    return await apiDefinitions.expand(definition, targetUrls[0] ?? "");
+  } catch (error) {
+    // A definition URL on an internal network fails the scan like a target
+    if (error instanceof TargetValidationError) throw error;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.warn("Failed to load API definition", { scanId, error: message });
+    return {
+      requests: [],
+      warnings: [`API definition (${definition.type}): ${message}`],
+    };
+  }
+}
+
+/**
+ * Seeds API requests into ZAP and actively scans them within the context
+ */
+export async function scanApiRequests(
+  requests: ApiRequest[],
+  scanId: string,
+  context: ScanContext,
+  profile: ScanProfile,
+  checkpoints: ScanCheckpoints,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  const { zap, contextName, contextId, userId } = context;
+
+  await targetValidator.validateAll(requests.map((request) => request.url));
+
+  logger.info("Seeding API requests", {
     scanId,
     contextName,
+    totalRequests: requests.length,
   });
-  await waitForZapOperation(
-    () => zap.getScanStatus(activeScanId),
-    "active scan",
-    scanId,
-    targetUrl
+  for (const request of requests) {
+    signal?.throwIfAborted();
+    try {
+      await seedRequest(zap, request);
+    } catch (error) {
+      logger.warn("Failed to seed API request into ZAP", {
+        scanId,
+        method: request.method,
+        url: request.url,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  if (!profile.engines.zapActiveScan) return;
+
+  // One context-restricted scan per origin covers every seeded request
+  const origins = [...new Set(requests.map((r) => new URL(r.url).origin))];
+  for (const [index, origin] of origins.entries()) {
+    const reportScanProgress = (percent: number) =>
+      onProgress?.("active_scan", (index * 100 + percent) / origins.length);
+    // Prefixed so an origin never shares a checkpoint with a target URL
+    const checkpointTarget = `api:${origin}`;
+    if (checkpoints.isCompleted(checkpointTarget, "active_scan")) {
+      reportScanProgress(100);
+      continue;
+    }
+
+    reportScanProgress(0);
+    const endTimer = scanPhaseDuration.startTimer({ phase: "active_scan" });
+    await targetValidator.validate(origin);
+    logger.info("Starting API active scan", { scanId, origin, contextName });
+    const activeScanId = await startOrReattach(
+      checkpoints,
+      context,
+      checkpointTarget,
+      "active_scan",
+      scanId,
+      (id) => zap.getScanStatus(id),
+      () =>
+        userId
+          ? zap.startActiveScanAsUser(origin, {
+              contextId,
+              userId,
+              recurse: true,
+              scanPolicyName: profile.zap.scanPolicyName,
+            })
+          : zap.startActiveScan(origin, {
+              scanId,
+              contextId,
+              recurse: true,
+              scanPolicyName: profile.zap.scanPolicyName,
+            })
+    );
+    await waitForOrStop(
+      () => zap.getScanStatus(activeScanId),
+      () => zap.stopScan(activeScanId),
+      "API active scan",
+      scanId,
+      origin,
+      profile.timeBudgets.activeScan,
+      signal,
+      reportScanProgress
+    );
+    await checkpoints.complete(checkpointTarget, "active_scan");
+    endTimer();
+    logger.info("API active scan completed", { scanId, origin });
+  }
+}
+
+/**
+ * Checks that the binaries of the CLI scanners can be found
+ * @returns Whether each binary was found
+ */
+export async function checkScannerBinaries(): Promise<Record<string, boolean>> {
+  const [nucleiFound, katanaFound] = await Promise.all([
+    nuclei.isBinaryAvailable(),
+    katana.isBinaryAvailable(),
+  ]);
+  return { nuclei: nucleiFound, katana: katanaFound };
+}
+
+/**
+ * Runs Nuclei templates against the target URLs, stopping it once the
+ * profile's time budget runs out
+ */
+export async function runNucleiScan(
+  targetUrls: string[],
+  scanId: string,
+  { maxDuration, ...options }: ScanProfile["nuclei"],
+  signal?: AbortSignal
+): Promise<NucleiFinding[]> {
+  logger.info("Starting Nuclei scan", { scanId, targets: targetUrls });
+  const result = await withTimeBudget(
+    "Nuclei scan",
+    maxDuration,
+    signal,
+    (scanSignal) => nuclei.scanTarget(targetUrls, options, scanSignal)
   );
-  logger.info("Active scan completed", { scanId, targetUrl });
+  logger.info("Nuclei scan completed", {
+    scanId,
+    totalFindings: result.total_findings,
+  });
+  return result.findings;
 }
 
 /**
  * Gets alerts from ZAP for a given context
  */
-export async function getZapAlerts(contextName: string): Promise<ZapAlert[]> {
+export async function getZapAlerts(context: ScanContext): Promise<ZapAlert[]> {
+  const { zap, contextName } = context;
   return (await zap.getAlerts({ contextName })) as ZapAlert[];
 }
 
 /**
- * Removes a ZAP context
+ * Removes a ZAP context and any authentication rule added for it
  */
 export async function removeContext(
-  contextName: string,
+  context: ScanContext,
   scanId: string
 ): Promise<void> {
+  const { zap, contextName, headerRule } = context;
+
+  for (const host of context.hostRates.hosts) {
+    await zap
+      .removeRateLimitRule(rateLimitRuleName(scanId, host))
+      .catch((error) =>
+        logger.error("Error removing ZAP rate limit rule", {
+          scanId,
+          host,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      );
+  }
+
+  if (headerRule) {
+    try {
+      await zap.removeRule(headerRule);
+    } catch (error) {
+      logger.error("Error removing ZAP replacer rule", {
+        scanId,
+        headerRule,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
   try {
     await zap.removeContext(contextName);
     logger.info("Removed ZAP context", { scanId, contextName });
@@ -0,0 +1,188 @@
+import { scanProfileEnum } from "@/db/schema";
+import type { NucleiOptions } from "@/services/nuclei/types";
+import type { AjaxSpiderOptions } from "./types";
+
+export type ScanProfileName = (typeof scanProfileEnum.enumValues)[number];
+
+/**
+ * Bundle of settings applied to every target of a scan
+ */
+export interface ScanProfile {
+  /** Which engines and phases run */
+  engines: {
+    katana: boolean;
+    zapSpider: boolean;
+    zapAjaxSpider: boolean;
+    zapActiveScan: boolean;
+    nuclei: boolean;
+  };
+  katana: {
+    /** Maximum crawl depth */
+    depth: number;
+    /** Timeout of each request in seconds */
+    timeout: number;
+    /** Time budget of the whole crawl in minutes */
+    maxDuration: number;
+    /** Requests per second (set from the scan's host budget) */
+    rateLimit?: number;
+  };
+  zap: {
+    /** Maximum children the spider visits per node (0 for unlimited) */
+    spiderMaxChildren: number;
+    /** Name of the active-scan policy to use (ZAP default when unset) */
+    scanPolicyName?: string;
+    ajaxSpider: {
+      /** Headless browser driving the AJAX spider */
+      browser: "chrome-headless" | "firefox-headless";
+      /** Maximum crawl duration in minutes */
+      maxDuration: number;
+      /** Maximum depth of UI states (0 for unlimited) */
+      maxCrawlDepth: number;
+      /** Maximum number of UI states (0 for unlimited) */
+      maxCrawlStates: number;
+    };
+  };
+  nuclei: Pick<NucleiOptions, "severity" | "tags" | "rateLimit"> & {
+    /** Time budget of the whole run in minutes */
+    maxDuration: number;
+  };
+  /** Time budgets per phase in minutes */
+  timeBudgets: {
+    spider: number;
+    activeScan: number;
+  };
+}
+
+/**
+ * Profile used when a scan request does not name one
+ */
+export const DEFAULT_SCAN_PROFILE: ScanProfileName = "standard";
+
+/**
+ * Registry of named scan profiles
+ */
+export const SCAN_PROFILES: Record<ScanProfileName, ScanProfile> = {
+  quick: {
+    engines: {
+      katana: false,
+      zapSpider: true,
+      zapAjaxSpider: false,
+      zapActiveScan: false,
+      nuclei: true,
+    },
+    katana: { depth: 1, timeout: 10, maxDuration: 5 },
+    zap: {
+      spiderMaxChildren: 20,
+      ajaxSpider: {
+        browser: "chrome-headless",
+        maxDuration: 2,
+        maxCrawlDepth: 3,
+        maxCrawlStates: 50,
+      },
+    },
+    nuclei: { severity: ["critical", "high"], maxDuration: 10 },
+    timeBudgets: { spider: 5, activeScan: 0 },
+  },
+  standard: {
+    engines: {
+      katana: true,
+      zapSpider: true,
+      zapAjaxSpider: false,
+      zapActiveScan: true,
+      nuclei: true,
+    },
+    katana: { depth: 2, timeout: 30, maxDuration: 10 },
+    zap: {
+      spiderMaxChildren: 0,
+      ajaxSpider: {
+        browser: "chrome-headless",
+        maxDuration: 5,
+        maxCrawlDepth: 5,
+        maxCrawlStates: 0,
+      },
+    },
+    nuclei: { severity: ["critical", "high", "medium"], maxDuration: 30 },
+    timeBudgets: { spider: 15, activeScan: 15 },
+  },
+  deep: {
+    engines: {
+      katana: true,
+      zapSpider: true,
+      zapAjaxSpider: true,
+      zapActiveScan: true,
+      nuclei: true,
+    },
+    katana: { depth: 5, timeout: 60, maxDuration: 30 },
+    zap: {
+      spiderMaxChildren: 0,
+      ajaxSpider: {
+        browser: "chrome-headless",
+        maxDuration: 15,
+        maxCrawlDepth: 10,
+        maxCrawlStates: 0,
+      },
+    },
+    nuclei: {
+      severity: ["critical", "high", "medium", "low", "info"],
+      maxDuration: 120,
+    },
+    timeBudgets: { spider: 30, activeScan: 60 },
+  },
+  passive: {
+    engines: {
+      katana: true,
+      zapSpider: true,
+      zapAjaxSpider: true,
+      zapActiveScan: false,
+      nuclei: false,
+    },
+    katana: { depth: 2, timeout: 30, maxDuration: 10 },
+    zap: {
+      spiderMaxChildren: 0,
+      ajaxSpider: {
+        browser: "chrome-headless",
+        maxDuration: 5,
+        maxCrawlDepth: 5,
+        maxCrawlStates: 0,
+      },
+    },
+    nuclei: { maxDuration: 30 },
+    timeBudgets: { spider: 15, activeScan: 0 },
+  },
+};
+
+/**
+ * Looks up a scan profile by name, falling back to the default profile
+ */
+export function getScanProfile(name?: ScanProfileName): ScanProfile {
+  return SCAN_PROFILES[name ?? DEFAULT_SCAN_PROFILE];
+}
+
+/**
+ * Derives a profile that keeps the discovery phases of another but never
+ * sends attack traffic
+ */
+export function toPassiveProfile(profile: ScanProfile): ScanProfile {
+  return {
+    ...profile,
+    engines: { ...profile.engines, zapActiveScan: false, nuclei: false },
+  };
+}
+
+/**
+ * Applies the AJAX spider settings of a scan request over a profile's
+ * defaults
+ */
+export function withAjaxSpiderOptions(
+  defaults: ScanProfile["zap"]["ajaxSpider"],
+  overrides?: boolean | AjaxSpiderOptions
+): ScanProfile["zap"]["ajaxSpider"] {
+  if (typeof overrides !== "object") return defaults;
+
+  return {
+    browser: overrides.browser ?? defaults.browser,
+    maxDuration: overrides.maxDuration ?? defaults.maxDuration,
+    maxCrawlDepth: overrides.maxCrawlDepth ?? defaults.maxCrawlDepth,
+    maxCrawlStates: overrides.maxStates ?? defaults.maxCrawlStates,
+  };
+}
@@ -1,20 +1,69 @@
-import { Job, Queue } from "bullmq";
+import { DelayedError, Job, Queue } from "bullmq";
 import { SCAN_STATUS } from "@/services/nuclei/types";
 import { logger } from "@/logger";
 import { env } from "@/env.mjs";
-import type { ScanJob, SendScanEmailData } from "./types";
+import { scanPhaseDuration } from "@/metrics";
+import { ScanRequestSchema } from "./types";
+import type {
+  ScanContext,
+  ScanJob,
+  ScanRequest,
+  ScanZapLease,
+  SendScanEmailData,
+} from "./types";
 import {
   updateScanStatus,
   getScanRecord,
+  storeFindings,
   storeScanResults,
+  diffScanFindings,
+  getSeverityOverrides,
+  updateScanDiscoverySources,
+  updateScanProfile,
+  appendScanWarnings,
 } from "./db-operations";
 import {
   createScanContext,
   scanTargetUrl,
   getZapAlerts,
   removeContext,
+  runNucleiScan,
+  leaseZapInstance,
+  loadApiRequests,
+  scanApiRequests,
+  toEngineError,
+  validateScanTargets,
+  buildScanScope,
 } from "./scan-operations";
-import { mapAlertsToFindings, calculateStats } from "./findings-utils";
+import {
+  groupFindings,
+  mapAlertsToFindings,
+  mapNucleiFindingsToFindings,
+  redactCredentials,
+} from "./findings-utils";
+import {
+  DEFAULT_SCAN_PROFILE,
+  getScanProfile,
+  toPassiveProfile,
+  withAjaxSpiderOptions,
+} from "./scan-profiles";
+import type { ScanProfile } from "./scan-profiles";
+import { RiskScorer } from "@/services/scoring/service";
+import type { ApiRequest } from "@/services/api-definitions/types";
+import { ZapPoolExhaustedError } from "@/services/zap/exceptions";
+import {
+  ScanInterruptedError,
+  clearCancellation,
+  watchForCancellation,
+} from "./cancellation";
+import { ScanProgress } from "./progress";
+import { SCAN_WIDE_TARGET, ScanCheckpoints } from "./checkpoints";
+import { verifyTargetOwnership } from "./ownership";
+import { storeScanArtifacts } from "./artifacts";
+import { evaluateScanGate } from "./gate";
+import { emitNewCriticalFindings, emitWebhookEvent } from "./webhooks";
+import { HostBudgetLostError, claimHostRate } from "./rate-limit";
+import type { TargetOwnership } from "./ownership";
 
 // Initialize notification queue
 const notificationQueue = new Queue<SendScanEmailData>("scan-notifications", {
@@ -23,110 +72,612 @@ const notificationQueue = new Queue<SendScanEmailData>("scan-notifications", {
   },
 });
 
+/** How long a scan waits when its hosts or the ZAP pool are saturated */
+const SATURATED_RETRY_DELAY_MS = 60000;
+
+/**
+ * Runs spider and active scans for each target and API request
+ */
+async function runZapScans(
+  targetUrls: string[],
+  apiRequests: ApiRequest[],
+  scanId: string,
+  context: ScanContext,
+  profile: ScanProfile,
+  checkpoints: ScanCheckpoints,
+  ownership: TargetOwnership,
+  signal: AbortSignal,
+  progress: ScanProgress
+): Promise<void> {
+  const { contextName } = context;
+  const discoverySources: Record<string, number> = {};
+  const passiveProfile = toPassiveProfile(profile);
+
+  for (const [index, targetUrl] of targetUrls.entries()) {
+    try {
+      const targetSources = await scanTargetUrl(
+        targetUrl,
+        scanId,
+        context,
+        ownership.isVerified(targetUrl) ? profile : passiveProfile,
+        checkpoints,
+        signal,
+        progress.forUnit(index, targetUrl)
+      );
+      for (const [source, count] of Object.entries(targetSources)) {
+        discoverySources[source] = (discoverySources[source] ?? 0) + count;
+      }
+    } catch (error) {
+      logger.error("Error during scan operations", {
+        scanId,
+        targetUrl,
+        contextName,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      if (!signal.aborted) {
+        await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
+      }
+      throw error;
+    }
+  }
+
+  if (apiRequests.length > 0) {
+    const verified = apiRequests.filter((apiRequest) =>
+      ownership.isVerified(apiRequest.url)
+    );
+    const unverified = apiRequests.filter(
+      (apiRequest) => !ownership.isVerified(apiRequest.url)
+    );
+    try {
+      for (const [requests, requestProfile] of [
+        [verified, profile],
+        [unverified, passiveProfile],
+      ] as const) {
+        if (requests.length === 0) continue;
+        await scanApiRequests(
+          requests,
+          scanId,
+          context,
+          requestProfile,
+          checkpoints,
+          signal,
+          progress.forUnit(targetUrls.length)
+        );
+      }
+    } catch (error) {
+      logger.error("Error during API scan operations", {
+        scanId,
+        contextName,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      if (!signal.aborted) {
+        await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
+      }
+      throw error;
+    }
+  }
+
+  await updateScanDiscoverySources(scanId, discoverySources);
+  progress.completeZap();
+}
+
+/**
+ * Runs Nuclei and stores its findings straight away, unless a previous
+ * attempt of the job already did
+ * @returns Number of findings stored
+ */
+async function runNucleiScanOnce(
+  targetUrls: string[],
+  scanId: string,
+  profile: ScanProfile,
+  checkpoints: ScanCheckpoints,
+  request: ScanRequest,
+  scorer: RiskScorer,
+  signal: AbortSignal
+): Promise<number> {
+  if (checkpoints.isCompleted(SCAN_WIDE_TARGET, "nuclei")) {
+    logger.info("Nuclei findings already stored, skipping", { scanId });
+    return 0;
+  }
+
+  const endTimer = scanPhaseDuration.startTimer({ phase: "nuclei" });
+  const results = await runNucleiScan(
+    targetUrls,
+    scanId,
+    profile.nuclei,
+    signal
+  );
+  const findings = groupFindings(
+    redactCredentials(
+      mapNucleiFindingsToFindings(results, scanId, scorer),
+      request.authentication
+    )
+  );
+  await storeFindings(findings, {
+    scanId,
+    target: SCAN_WIDE_TARGET,
+    phase: "nuclei",
+  });
+  checkpoints.markCompleted(SCAN_WIDE_TARGET, "nuclei");
+  endTimer();
+  return findings.length;
+}
+
+/**
+ * Stores the ZAP alerts of the scan's context, unless a previous attempt of
+ * the job already did
+ * @returns Number of findings stored
+ */
+async function storeZapFindings(
+  scanId: string,
+  context: ScanContext,
+  checkpoints: ScanCheckpoints,
+  request: ScanRequest,
+  scorer: RiskScorer
+): Promise<number> {
+  if (checkpoints.isCompleted(SCAN_WIDE_TARGET, "ingest")) return 0;
+
+  const { contextName } = context;
+  const endTimer = scanPhaseDuration.startTimer({ phase: "ingest" });
+  const alerts = await getZapAlerts(context);
+  const findings = groupFindings(
+    redactCredentials(
+      mapAlertsToFindings(alerts, scanId, contextName, scorer),
+      request.authentication
+    )
+  );
+  await storeFindings(findings, {
+    scanId,
+    target: SCAN_WIDE_TARGET,
+    phase: "ingest",
+  });
+  checkpoints.markCompleted(SCAN_WIDE_TARGET, "ingest");
+  endTimer();
+  return findings.length;
+}
+
+/**
+ * Stores the findings gathered before a cancellation and marks the scan as
+ * cancelled
+ */
+async function storeCancelledScan(
+  scanId: string,
+  context: ScanContext | undefined,
+  checkpoints: ScanCheckpoints | undefined,
+  request: ScanRequest,
+  scorer: RiskScorer
+): Promise<void> {
+  if (!context || !checkpoints) {
+    await updateScanStatus(scanId, SCAN_STATUS.Cancelled);
+    return;
+  }
+
+  const { contextName } = context;
+  try {
+    // Nuclei findings are only kept if it finished before the cancellation
+    await storeZapFindings(scanId, context, checkpoints, request, scorer);
+    await storeScanResults(scanId, contextName, SCAN_STATUS.Cancelled);
+  } catch (error) {
+    logger.error("Error storing partial findings", {
+      scanId,
+      contextName,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    await updateScanStatus(scanId, SCAN_STATUS.Cancelled);
+  }
+}
+
 /**
  * Main scan task handler
  */
-export const scan = async (job: Job<ScanJob>): Promise<void> => {
-  const { scanId, request } = job.data;
+export const scan = async (
+  job: Job<ScanJob>,
+  token?: string
+): Promise<void> => {
+  const { scanId } = job.data;
 
-  if (!scanId || !request?.targetUrls?.length) {
-    throw new Error("Invalid job data: scanId and targetUrls are required");
+  if (!scanId) {
+    throw new Error("Invalid job data: scanId is required");
   }
 
-  let contextName: string | undefined;
+  const parsedRequest = ScanRequestSchema.safeParse(job.data.request);
+  if (!parsedRequest.success) {
+    // A malformed request, such as an invalid target URL, fails the scan
+    const error = new Error(
+      `Invalid job data: ${parsedRequest.error.errors
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`
+    );
+    await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
+    throw error;
+  }
+
+  const request = parsedRequest.data;
+  const profileName = request.profile ?? DEFAULT_SCAN_PROFILE;
+  const baseProfile = getScanProfile(profileName);
+
+  // Fetch scan record to get projectId and the configured rate
+  const scanRecord = await getScanRecord(scanId);
+  const scorer = new RiskScorer(
+    await getSeverityOverrides(scanRecord.projectId)
+  );
+
+  // Share each host's request budget with every other scan of it
+  const hosts = request.targetUrls.map((url) => new URL(url).host);
+  const rateClaim = await claimHostRate(hosts, scanRecord.rateLimit, scanId);
+  if (!rateClaim) {
+    logger.info("Target hosts are saturated, delaying scan", {
+      scanId,
+      hosts,
+    });
+    await job.moveToDelayed(Date.now() + SATURATED_RETRY_DELAY_MS, token);
+    throw new DelayedError();
+  }
 
+  // Each scan runs on a pooled ZAP instance it does not share with many others
+  let zapLease: ScanZapLease;
   try {
-    logger.info("Starting scan task", { scanId, targets: request.targetUrls });
+    // Header credentials are injected instance-wide, so no scan may share it
+    zapLease = await leaseZapInstance(
+      scanId,
+      request.authentication?.type === "header"
+    );
+  } catch (error) {
+    await rateClaim.release().catch(() => undefined);
+    if (!(error instanceof ZapPoolExhaustedError)) throw error;
+    logger.info("No ZAP instance available, delaying scan", { scanId });
+    await job.moveToDelayed(Date.now() + SATURATED_RETRY_DELAY_MS, token);
+    throw new DelayedError();
+  }
+
+  // ZAP and Nuclei run side by side, so they split the scan's rate
+  const engineRate = Math.max(
+    1,
+    Math.floor(rateClaim.rate / (baseProfile.engines.nuclei ? 2 : 1))
+  );
+  const profile: ScanProfile = {
+    ...baseProfile,
+    engines: {
+      ...baseProfile.engines,
+      zapAjaxSpider:
+        request.ajaxSpider === undefined
+          ? baseProfile.engines.zapAjaxSpider
+          : request.ajaxSpider !== false,
+    },
+    zap: {
+      ...baseProfile.zap,
+      ajaxSpider: withAjaxSpiderOptions(
+        baseProfile.zap.ajaxSpider,
+        request.ajaxSpider
+      ),
+    },
+    katana: { ...baseProfile.katana, rateLimit: engineRate },
+    nuclei: { ...baseProfile.nuclei, rateLimit: engineRate },
+  };
 
-    // Fetch scan record to get projectId
-    const scanRecord = await getScanRecord(scanId);
+  let context: ScanContext | undefined;
+  let checkpoints: ScanCheckpoints | undefined;
+  // A requeued job resumes in the same context on the same instance
+  let requeued = false;
+  // Losing the host budget stops the scan so it can wait for budget again
+  const cancellation = watchForCancellation(scanId, rateClaim.signal);
+
+  try {
+    logger.info("Starting scan task", {
+      scanId,
+      targets: request.targetUrls,
+      profile: profileName,
+      rateLimit: rateClaim.rate,
+    });
 
     // Set scan to in progress
     await updateScanStatus(scanId, SCAN_STATUS.InProgress);
+    await updateScanProfile(scanId, profileName);
+    await emitWebhookEvent(scanRecord.projectId, "scan.started", {
+      scanId,
+      targetUrls: request.targetUrls,
+      profile: profileName,
+    });
+
+    // Load the work done by previous attempts of this job
+    checkpoints = await ScanCheckpoints.load(scanId);
+
+    // Expand the API definition; parse problems are recorded, not fatal
+    const apiDefinition = request.apiDefinition
+      ? await loadApiRequests(request.apiDefinition, request.targetUrls, scanId)
+      : { requests: [], warnings: [] };
+
+    // Every engine is held to the same scope
+    const scope = buildScanScope(request.scope, request.targetUrls);
+    const targets = scope.partition(request.targetUrls, (url) => url);
+    const apiRequests = scope.partition(
+      apiDefinition.requests,
+      (apiRequest) => apiRequest.url
+    );
+    const scopeWarnings = [
+      ...targets.outOfScope.map((url) => `Target out of scope: ${url}`),
+      ...(apiRequests.outOfScope.length > 0
+        ? [`${apiRequests.outOfScope.length} API requests out of scope`]
+        : []),
+    ];
+    await appendScanWarnings(scanId, [
+      ...apiDefinition.warnings,
+      ...scopeWarnings,
+    ]);
+    if (targets.inScope.length === 0) {
+      throw new Error("No target URLs are in scope");
+    }
+
+    // API requests may reach hosts beyond the targets, which need budget too
+    const saturatedHosts = new Set<string>();
+    for (const host of new Set(
+      apiRequests.inScope.map((apiRequest) => new URL(apiRequest.url).host)
+    )) {
+      if (!(await rateClaim.extend([host]))) saturatedHosts.add(host);
+    }
+    if (saturatedHosts.size > 0) {
+      apiRequests.inScope = apiRequests.inScope.filter(
+        (apiRequest) => !saturatedHosts.has(new URL(apiRequest.url).host)
+      );
+      await appendScanWarnings(scanId, [
+        `API requests skipped, host rate budget in use by other scans: ${[
+          ...saturatedHosts,
+        ].join(", ")}`,
+      ]);
+    }
+
+    const nucleiTargets = [
+      ...new Set([
+        ...targets.inScope,
+        ...apiRequests.inScope.map((apiRequest) => apiRequest.url),
+      ]),
+    ];
+
+    // Refuse internal targets before any engine sends a request
+    await validateScanTargets(nucleiTargets, scope, scanId);
+
+    // Active phases only run against hosts the project has proven it controls
+    const ownership: TargetOwnership =
+      profile.engines.zapActiveScan || profile.engines.nuclei
+        ? await verifyTargetOwnership(
+            scanRecord.projectId,
+            nucleiTargets,
+            scanId
+          )
+        : { isVerified: () => true, unverifiedHosts: [], warnings: [] };
+    await appendScanWarnings(scanId, ownership.warnings);
+    const verifiedNucleiTargets = nucleiTargets.filter((url) =>
+      ownership.isVerified(url)
+    );
+    const runNuclei =
+      profile.engines.nuclei && verifiedNucleiTargets.length > 0;
 
     // Create context
-    contextName = await createScanContext(scanId, request.targetUrls);
-    logger.info("Created ZAP context", { scanId, contextName });
+    context = await createScanContext(
+      scanId,
+      zapLease,
+      targets.inScope,
+      scope,
+      rateClaim,
+      engineRate,
+      request.authentication
+    );
+    const { contextName } = context;
+    if (!context.resumed) {
+      // Work a previous attempt did in a context that is gone must be redone
+      await checkpoints.discardZapPhases();
+    }
+    logger.info("Created ZAP context", {
+      scanId,
+      contextName,
+      instanceId: zapLease.instanceId,
+      authenticated: !!request.authentication,
+      includeRegexes: scope.includeRegexes,
+      excludeRegexes: scope.excludeRegexes,
+    });
 
-    // Scan each target URL
-    for (const targetUrl of request.targetUrls) {
-      try {
-        await scanTargetUrl(targetUrl, scanId, contextName);
-      } catch (error) {
-        logger.error("Error during scan operations", {
+    // Run ZAP and Nuclei side by side against the same targets
+    const progress = new ScanProgress(
+      job,
+      scanId,
+      profile,
+      targets.inScope.length + (apiRequests.inScope.length > 0 ? 1 : 0),
+      (phase) =>
+        void emitWebhookEvent(scanRecord.projectId, "scan.phase_changed", {
           scanId,
-          targetUrl,
-          contextName,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-        await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
+          phase,
+        })
+    );
+    progress.reportNuclei(runNuclei ? 0 : 100);
+    // Nuclei is stopped when ZAP fails, since the scan fails with it
+    const stopNuclei = new AbortController();
+    const nucleiSignal = AbortSignal.any([
+      cancellation.signal,
+      stopNuclei.signal,
+    ]);
+    const [zapRun, nucleiRun] = await Promise.allSettled([
+      runZapScans(
+        targets.inScope,
+        apiRequests.inScope,
+        scanId,
+        context,
+        profile,
+        checkpoints,
+        ownership,
+        cancellation.signal,
+        progress
+      ).catch((error) => {
+        stopNuclei.abort(error);
         throw error;
-      }
-    }
+      }),
+      runNuclei
+        ? runNucleiScanOnce(
+            verifiedNucleiTargets,
+            scanId,
+            profile,
+            checkpoints,
+            request,
+            scorer,
+            nucleiSignal
+          ).then((count) => {
+            progress.reportNuclei(100);
+            return count;
+          })
+        : Promise.resolve(0),
+    ]);
 
-    // Get and process alerts
-    const alerts = await getZapAlerts(contextName);
+    // Both engines have stopped, so the context can be cleaned up safely
+    if (zapRun.status === "rejected") throw zapRun.reason;
 
-    if (alerts.length > 0) {
-      try {
-        const findings = mapAlertsToFindings(alerts, scanId, contextName);
-        const stats = calculateStats(findings);
-        await storeScanResults(findings, scanId, contextName, stats);
+    let nucleiFindings = 0;
+    if (nucleiRun.status === "fulfilled") {
+      nucleiFindings = nucleiRun.value;
+    } else if (cancellation.signal.aborted) {
+      throw nucleiRun.reason;
+    } else {
+      // ZAP's results stand on their own; the scan completes without Nuclei's
+      const message =
+        nucleiRun.reason instanceof Error
+          ? nucleiRun.reason.message
+          : "Unknown error";
+      logger.error("Error during Nuclei scan", { scanId, error: message });
+      await appendScanWarnings(scanId, [`Nuclei scan failed: ${message}`]);
+      progress.reportNuclei(100);
+    }
 
-        // Send notification after successful scan with findings
-        await notificationQueue.add(env.SCAN_NOTIFICATION_QUEUE_NAME, {
+    let zapFindings: number;
+    try {
+      progress.reportIngest(0);
+      zapFindings = await storeZapFindings(
+        scanId,
+        context,
+        checkpoints,
+        request,
+        scorer
+      );
+      const stats = await storeScanResults(scanId, contextName);
+      const diff = await diffScanFindings(scanId);
+      const gate = request.gate
+        ? await evaluateScanGate(scanId, request.gate)
+        : undefined;
+      try {
+        await storeScanArtifacts(
           scanId,
-          projectId: scanRecord.projectId,
-        });
+          runNuclei ? ["zap", "nuclei"] : ["zap"],
+          gate
+        );
       } catch (error) {
-        logger.error("Error storing findings", {
+        // Reports can be generated again from the stored findings
+        logger.warn("Failed to store scan artifacts", {
           scanId,
-          contextName,
           error: error instanceof Error ? error.message : "Unknown error",
         });
-        await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
-        throw error;
       }
-    } else {
-      // No findings - update with zero counts
-      const emptyStats = {
-        criticalCount: 0,
-        highCount: 0,
-        mediumCount: 0,
-        lowCount: 0,
-        infoCount: 0,
-        totalFindings: 0,
-        avgRiskScore: 0,
-        maxRiskScore: 0,
-      };
-      await updateScanStatus(scanId, SCAN_STATUS.Completed, emptyStats);
-
-      // Send notification for completed scan with no findings
+      progress.reportIngest(100);
+
+      // Send notification after successful scan
       await notificationQueue.add(env.SCAN_NOTIFICATION_QUEUE_NAME, {
         scanId,
         projectId: scanRecord.projectId,
+        diff,
+      });
+      await emitNewCriticalFindings(scanRecord.projectId, scanId);
+      await emitWebhookEvent(scanRecord.projectId, "scan.completed", {
+        scanId,
+        stats,
+        diff,
+        gate: gate ? { passed: gate.passed, reasons: gate.reasons } : null,
       });
+    } catch (error) {
+      logger.error("Error storing findings", {
+        scanId,
+        contextName,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
+      throw error;
     }
 
     logger.info("Scan completed successfully", {
       scanId,
       contextName,
-      findingsCount: alerts.length,
+      zapFindings,
+      nucleiFindings,
     });
   } catch (error) {
+    // Another worker picks the job up and resumes from its checkpoints
+    if (cancellation.signal.reason instanceof ScanInterruptedError) {
+      logger.warn("Scan interrupted by shutdown, requeueing", {
+        scanId,
+        contextName: context?.contextName,
+      });
+      await updateScanStatus(
+        scanId,
+        SCAN_STATUS.Interrupted,
+        undefined,
+        cancellation.signal.reason
+      );
+      await job.moveToDelayed(Date.now(), token);
+      requeued = true;
+      throw new DelayedError();
+    }
+
+    if (cancellation.signal.reason instanceof HostBudgetLostError) {
+      logger.warn("Scan lost its host rate budget, requeueing", {
+        scanId,
+        contextName: context?.contextName,
+      });
+      await updateScanStatus(
+        scanId,
+        SCAN_STATUS.Interrupted,
+        undefined,
+        cancellation.signal.reason
+      );
+      // Its ZAP scans were stopped to stay within budget, so they start over
+      await checkpoints?.forgetStoppedZapScans();
+      await job.moveToDelayed(Date.now() + SATURATED_RETRY_DELAY_MS, token);
+      requeued = true;
+      throw new DelayedError();
+    }
+
+    if (cancellation.signal.aborted) {
+      logger.info("Scan cancelled", {
+        scanId,
+        contextName: context?.contextName,
+      });
+      await storeCancelledScan(scanId, context, checkpoints, request, scorer);
+      return;
+    }
+
+    const failure = await toEngineError(error, zapLease);
     logger.error("Scan failed", {
       scanId,
-      contextName,
-      error: error instanceof Error ? error.message : "Unknown error",
+      contextName: context?.contextName,
+      error: failure instanceof Error ? failure.message : "Unknown error",
       stack: error instanceof Error ? error.stack : undefined,
     });
 
-    await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, error);
-    throw error;
+    await updateScanStatus(scanId, SCAN_STATUS.Failed, undefined, failure);
+    await emitWebhookEvent(scanRecord.projectId, "scan.failed", {
+      scanId,
+      error: failure instanceof Error ? failure.message : "Unknown error",
+      errorCode:
+        failure instanceof Error &&
+        "code" in failure &&
+        typeof failure.code === "string"
+          ? failure.code
+          : null,
+    });
+    throw failure;
   } finally {
+    cancellation.stop();
+    await rateClaim.release().catch(() => undefined);
+    await clearCancellation(scanId).catch(() => undefined);
+
     // Clean up context
-    if (contextName) {
-      await removeContext(contextName, scanId);
+    if (context && !requeued) {
+      await removeContext(context, scanId);
     }
+    zapLease.release(requeued);
   }
 };
@@ -0,0 +1,163 @@
+import type { ScanScope } from "./types";
+
+/**
+ * Escapes a literal string for use in a regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Anchors a regex so it has to match the whole URL
+ */
+export function anchorRegex(pattern: string): string {
+  return `^(?:${pattern})$`;
+}
+
+/**
+ * A regex bounded to one host: a scheme, then a literal hostname with
+ * escaped dots and an optional port, then a path, query or the end
+ */
+const HOST_BOUNDED_REGEX =
+  /^\^?(?:https\?|https|http|\(\?:https\?\))(?::\/\/|:\\\/\\\/)((?:[a-zA-Z0-9-]+\\\.)*[a-zA-Z0-9-]+)(?::\d+|\(\?::\\d\+\)\?)?(?:$|\/|\\\/|\\\?|#|\$)/;
+
+/**
+ * Whether a regex has an alternative outside any group, which would let the
+ * rest of it match URLs on any host
+ */
+function hasTopLevelAlternation(pattern: string): boolean {
+  let depth = 0;
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "\\") {
+      index++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "|" && depth === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Gets the host a scope regex is bounded to
+ * @returns The hostname, or null if the regex could match other hosts
+ */
+export function regexHost(pattern: string): string | null {
+  if (hasTopLevelAlternation(pattern)) return null;
+  const host = pattern.match(HOST_BOUNDED_REGEX)?.[1];
+  return host ? host.replace(/\\\./g, ".").toLowerCase() : null;
+}
+
+/**
+ * Builds a regex matching every URL on a host under a path prefix
+ */
+function prefixToRegex(host: string, pathPrefix: string): string {
+  const hostPattern = host.startsWith("*.")
+    ? `(?:[^/:]+\\.)?${escapeRegex(host.slice(2).toLowerCase())}`
+    : escapeRegex(host.toLowerCase());
+  // A host without a port matches any port
+  const portPattern = host.includes(":") ? "" : "(?::\\d+)?";
+  return `https?://${hostPattern}${portPattern}${escapeRegex(pathPrefix)}.*`;
+}
+
+/**
+ * Decides which URLs a scan may visit. ZAP, Katana and Nuclei are all given
+ * the same regexes, which are matched against the whole URL as ZAP does.
+ */
+export class ScopeMatcher {
+  /** Regexes of URLs in scope */
+  readonly includeRegexes: string[];
+  /** Regexes of URLs out of scope even if included */
+  readonly excludeRegexes: string[];
+  /** Hosts the scope rules name, which must be validated before any request */
+  readonly hosts: string[];
+
+  private includes: RegExp[];
+  private excludes: RegExp[];
+
+  /**
+   * @param scope - Scope rules from the scan request
+   * @param targetUrls - URLs whose prefixes are in scope when no include
+   * rule is given
+   * @param blockedRegexes - URLs no engine may visit, whatever the rules say
+   */
+  constructor(
+    scope: ScanScope | undefined,
+    targetUrls: string[],
+    blockedRegexes: string[] = []
+  ) {
+    const prefixes =
+      scope && (scope.include.length > 0 || scope.includeRegexes.length > 0)
+        ? scope.include
+        : targetUrls.map((targetUrl) => {
+            const { host, pathname } = new URL(targetUrl);
+            // Everything in the target's directory, not just the page itself
+            const pathPrefix = pathname.slice(0, pathname.lastIndexOf("/") + 1);
+            return { host, pathPrefix };
+          });
+
+    // Targets in one directory would otherwise repeat the same regex
+    this.includeRegexes = [
+      ...new Set([
+        ...prefixes.map(({ host, pathPrefix }) =>
+          prefixToRegex(host, pathPrefix)
+        ),
+        ...(scope?.includeRegexes ?? []),
+      ]),
+    ];
+    this.excludeRegexes = [...(scope?.excludeRegexes ?? []), ...blockedRegexes];
+    // A wildcard's subdomains cannot be listed, so its parent stands for them
+    this.hosts = [
+      ...new Set([
+        ...targetUrls.map((url) => new URL(url).host),
+        ...(scope?.include ?? []).map(({ host }) =>
+          host.replace(/^\*\./, "").toLowerCase()
+        ),
+        ...(scope?.includeRegexes ?? []).flatMap(
+          (pattern) => regexHost(pattern) ?? []
+        ),
+      ]),
+    ];
+
+    this.includes = this.includeRegexes.map(ScopeMatcher.compile);
+    this.excludes = this.excludeRegexes.map(ScopeMatcher.compile);
+  }
+
+  private static compile(pattern: string): RegExp {
+    return new RegExp(anchorRegex(pattern));
+  }
+
+  /**
+   * Whether a URL is in scope
+   */
+  isInScope(url: string): boolean {
+    return (
+      this.includes.some((regex) => regex.test(url)) &&
+      !this.excludes.some((regex) => regex.test(url))
+    );
+  }
+
+  /**
+   * Splits items by whether their URL is in scope
+   */
+  partition<T>(
+    items: T[],
+    getUrl: (item: T) => string
+  ): { inScope: T[]; outOfScope: T[] } {
+    const inScope: T[] = [];
+    const outOfScope: T[] = [];
+    for (const item of items) {
+      (this.isInScope(getUrl(item)) ? inScope : outOfScope).push(item);
+    }
+    return { inScope, outOfScope };
+  }
+}
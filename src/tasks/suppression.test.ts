@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SuppressionRule } from "@/db/schema";
+import { SuppressionMatcher } from "./suppression";
+
+function rule(overrides: Partial<SuppressionRule> = {}): SuppressionRule {
+  return {
+    id: "rule-1",
+    projectId: "project-1",
+    kind: "accepted_risk",
+    pluginId: null,
+    urlRegex: null,
+    parameter: null,
+    cweId: null,
+    reason: "Static assets are served by the CDN",
+    owner: "security@example.com",
+    createdAt: new Date(),
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a grouped finding located at each of the given URLs
+ */
+function findingAt(...urls: string[]) {
+  return {
+    pluginId: "10021",
+    url: urls[0] ?? "",
+    parameter: null,
+    cweIds: [],
+    instances: urls.map((url) => ({
+      url,
+      method: "GET",
+      parameter: null,
+      attack: null,
+      evidence: null,
+    })),
+  };
+}
+
+test("suppresses a grouped finding only if every location matches", () => {
+  const matcher = new SuppressionMatcher([
+    rule({ pluginId: "10021", urlRegex: "^https://example\\.com/static/" }),
+  ]);
+
+  assert.equal(
+    matcher.match(
+      findingAt(
+        "https://example.com/static/a.js",
+        "https://example.com/static/b.css"
+      )
+    )?.id,
+    "rule-1"
+  );
+  assert.equal(
+    matcher.match(
+      findingAt(
+        "https://example.com/static/a.js",
+        "https://example.com/account"
+      )
+    ),
+    null
+  );
+});
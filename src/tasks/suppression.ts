@@ -0,0 +1,81 @@
+import type { ScanFinding, SuppressionRule } from "@/db/schema";
+import { logger } from "@/logger";
+import { findingInstances } from "@/services/reports/utils";
+
+/**
+ * Normalizes a CWE reference so "CWE-79" and "79" compare equal
+ */
+function normalizeCwe(cwe: string): string {
+  return cwe.trim().toUpperCase().replace(/^CWE-/, "");
+}
+
+/**
+ * Compiles a rule's URL regex, treating an invalid one as matching nothing
+ */
+function compileUrlRegex(rule: SuppressionRule): RegExp | null {
+  try {
+    return new RegExp(rule.urlRegex!);
+  } catch (error) {
+    logger.warn("Ignoring suppression rule with invalid URL regex", {
+      ruleId: rule.id,
+      urlRegex: rule.urlRegex,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Matches findings against a project's suppression rules
+ */
+export class SuppressionMatcher {
+  private rules: Array<{ rule: SuppressionRule; urlRegex: RegExp | null }>;
+
+  /**
+   * @param rules - Unexpired rules of the project
+   */
+  constructor(rules: SuppressionRule[]) {
+    this.rules = rules
+      .filter(
+        (rule) => rule.pluginId || rule.urlRegex || rule.parameter || rule.cweId
+      )
+      .map((rule) => ({
+        rule,
+        urlRegex: rule.urlRegex ? compileUrlRegex(rule) : null,
+      }));
+  }
+
+  /**
+   * Finds the first rule every set criterion of which matches the finding.
+   * A URL regex has to match every location of a grouped finding, so a rule
+   * written for one page never hides the issue on the others.
+   */
+  match(
+    finding: Pick<
+      ScanFinding,
+      "pluginId" | "url" | "parameter" | "cweIds" | "instances"
+    >
+  ): SuppressionRule | null {
+    const urls = [
+      finding.url,
+      ...findingInstances(finding).map((instance) => instance.url),
+    ];
+    for (const { rule, urlRegex } of this.rules) {
+      if (rule.pluginId && rule.pluginId !== finding.pluginId) continue;
+      if (rule.urlRegex && !urls.every((url) => urlRegex?.test(url) ?? false)) {
+        continue;
+      }
+      if (rule.parameter && rule.parameter !== finding.parameter) continue;
+      if (
+        rule.cweId &&
+        !(finding.cweIds ?? []).some(
+          (cwe) => normalizeCwe(cwe) === normalizeCwe(rule.cweId!)
+        )
+      ) {
+        continue;
+      }
+      return rule;
+    }
+    return null;
+  }
+}
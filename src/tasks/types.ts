@@ -1,21 +1,193 @@
+import { z } from "zod";
 import {
   severityLevelEnum,
   confidenceLevelEnum,
   riskLevelEnum,
+  scanEngineEnum,
+  scanProfileEnum,
 } from "@/db/schema";
+import { ApiDefinitionSchema } from "@/services/api-definitions/types";
+import type { ZapScanner } from "@/services/zap/client";
+import type { ZapLease } from "@/services/zap/pool";
+import { regexHost } from "./scope";
+import type { ScopeMatcher } from "./scope";
+import type { HostRateClaim } from "./rate-limit";
 
-export interface ScanRequest {
-  targetUrls: string[];
-}
+// Regexes ZAP uses to tell authenticated and unauthenticated responses apart
+const AuthIndicatorsSchema = z.object({
+  loggedInIndicator: z.string().optional(),
+  loggedOutIndicator: z.string().optional(),
+});
+
+// Zod schema for a login posted to a form or JSON endpoint
+const LoginAuthenticationSchema = AuthIndicatorsSchema.extend({
+  loginUrl: z.string().url(),
+  username: z.string(),
+  password: z.string(),
+  usernameField: z.string().default("username"),
+  passwordField: z.string().default("password"),
+});
+
+// Zod schema for the authentication config of a scan
+export const ScanAuthenticationSchema = z.discriminatedUnion("type", [
+  LoginAuthenticationSchema.extend({ type: z.literal("form") }),
+  LoginAuthenticationSchema.extend({ type: z.literal("json") }),
+  z.object({
+    type: z.literal("header"),
+    headerName: z.string().default("Authorization"),
+    headerValue: z.string(),
+  }),
+  AuthIndicatorsSchema.extend({
+    type: z.literal("basic"),
+    hostname: z.string(),
+    realm: z.string().optional(),
+    port: z.number().int().optional(),
+    username: z.string(),
+    password: z.string(),
+  }),
+]);
+
+export type ScanAuthentication = z.infer<typeof ScanAuthenticationSchema>;
+
+// A URL pattern compiled the same way by every engine
+const ScopeRegexSchema = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+// Zod schema for the URLs a scan may visit
+export const ScanScopeSchema = z.object({
+  // Hosts ("*.example.com" for subdomains) with an optional path prefix
+  include: z
+    .array(
+      z.object({
+        host: z.string().min(1),
+        pathPrefix: z.string().startsWith("/").default("/"),
+      })
+    )
+    .default([]),
+  // Regexes matched against the whole URL; includes must name their host
+  // literally so it can be validated before any engine follows them
+  includeRegexes: z
+    .array(
+      ScopeRegexSchema.refine((pattern) => regexHost(pattern) !== null, {
+        message:
+          "Include regexes must start with a scheme and a literal host, e.g. ^https://app\\.example\\.com/",
+      })
+    )
+    .default([]),
+  excludeRegexes: z.array(ScopeRegexSchema).default([]),
+});
+
+export type ScanScope = z.infer<typeof ScanScopeSchema>;
+
+// Zod schema for the pass/fail policy a CI pipeline gates deploys on
+export const GatePolicySchema = z.object({
+  // Most findings allowed per severity; severities left out are unlimited
+  maxCounts: z
+    .record(z.enum(severityLevelEnum.enumValues), z.number().int().min(0))
+    .default({}),
+  // Only count findings the previous scan did not have
+  newFindingsOnly: z.boolean().default(false),
+  ignoreSuppressed: z.boolean().default(true),
+  // Any finding classified with one of these CWEs fails the gate
+  cweDenyList: z.array(z.string()).default([]),
+});
+
+export type GatePolicy = z.infer<typeof GatePolicySchema>;
+
+// Zod schema for AJAX spider settings a scan request overrides its profile with
+export const AjaxSpiderOptionsSchema = z.object({
+  browser: z.enum(["chrome-headless", "firefox-headless"]).optional(),
+  // Minutes
+  maxDuration: z.number().int().min(1).max(120).optional(),
+  // 0 for unlimited
+  maxCrawlDepth: z.number().int().min(0).optional(),
+  maxStates: z.number().int().min(0).optional(),
+});
+
+export type AjaxSpiderOptions = z.infer<typeof AjaxSpiderOptionsSchema>;
+
+// Zod schema for the scan request carried by a job
+export const ScanRequestSchema = z.object({
+  targetUrls: z.array(z.string().url()).min(1),
+  profile: z.enum(scanProfileEnum.enumValues).optional(),
+  authentication: ScanAuthenticationSchema.optional(),
+  // Defaults to everything under the target URLs
+  scope: ScanScopeSchema.optional(),
+  apiDefinition: ApiDefinitionSchema.optional(),
+  // Overrides whether the profile runs the AJAX spider; settings turn it on
+  ajaxSpider: z.union([z.boolean(), AjaxSpiderOptionsSchema]).optional(),
+  // Pass/fail verdict evaluated once findings are stored
+  gate: GatePolicySchema.optional(),
+});
+
+export type ScanRequest = z.infer<typeof ScanRequestSchema>;
 
 export interface ScanJob {
   scanId: string;
   request: ScanRequest;
 }
 
+export interface WebhookJob {
+  deliveryId: string;
+}
+
+/**
+ * ZAP instance leased for one attempt of a scan
+ */
+export interface ScanZapLease extends ZapLease {
+  /**
+   * Returns the instance to the pool
+   * @param keepInstance - Whether the next attempt should go back to it
+   */
+  release: (keepInstance?: boolean) => void;
+}
+
+export interface ScanContext {
+  /** ZAP instance leased for the scan */
+  zap: ZapScanner;
+  /** Pool ID of that instance */
+  instanceId: string;
+  contextName: string;
+  contextId: string;
+  /** Whether the context was left behind by a previous attempt of the job */
+  resumed: boolean;
+  /** URLs the context covers */
+  scope: ScopeMatcher;
+  /** Per-host budget the scan holds; ZAP is throttled for each of its hosts */
+  hostRates: HostRateClaim;
+  /** Requests per second ZAP sends to each host */
+  zapRateLimit: number;
+  /** ZAP user the spider and active scan run as */
+  userId?: string;
+  userName?: string;
+  /** Replacer rule injecting a static authentication header */
+  headerRule?: string;
+}
+
+/**
+ * How a scan's findings compare with the project's previous completed scan
+ */
+export interface ScanDiffSummary {
+  /** Scan compared against, or null for the project's first scan */
+  previousScanId: string | null;
+  newFindings: number;
+  recurringFindings: number;
+  fixedFindings: number;
+}
+
 export interface SendScanEmailData {
   scanId: string;
   projectId: string;
+  diff: ScanDiffSummary;
 }
 
 export interface ZapAlert {
@@ -49,12 +221,39 @@ export interface ScanStats {
   lowCount: number;
   infoCount: number;
   totalFindings: number;
+  suppressedFindings: number;
   avgRiskScore: number;
   maxRiskScore: number;
 }
 
+export interface ZapFindingMetadata {
+  pluginId: string;
+  messageId?: string;
+  contextName: string;
+}
+
+export interface NucleiFindingMetadata {
+  templateId: string;
+  templatePath?: string;
+  matcherName?: string;
+  type?: string;
+  host?: string;
+}
+
+/**
+ * One place a logical issue was seen
+ */
+export interface FindingInstance {
+  url: string;
+  method: string | null;
+  parameter: string | null;
+  attack: string | null;
+  evidence: string | null;
+}
+
 export interface Finding {
   scanId: string;
+  engine: (typeof scanEngineEnum.enumValues)[number];
   name: string;
   description: string;
   severity: (typeof severityLevelEnum.enumValues)[number];
@@ -64,6 +263,9 @@ export interface Finding {
   tags: string[];
   riskLevel: (typeof riskLevelEnum.enumValues)[number];
   riskScore: number;
+  cvssVector: string | null;
+  cvssScore: number;
+  scoringVersion: string;
   pluginId: string;
   cweIds: string[];
   wasc: string[];
@@ -77,9 +279,8 @@ export interface Finding {
   requestHeaders: Record<string, string> | null;
   requestBody: string | null;
   responseHeaders: Record<string, string> | null;
-  metadata: {
-    pluginId: string;
-    messageId?: string;
-    contextName: string;
-  };
+  metadata: ZapFindingMetadata | NucleiFindingMetadata;
+  fingerprint: string;
+  instances: FindingInstance[];
+  instanceCount: number;
 }
@@ -0,0 +1,191 @@
+import { randomUUID } from "crypto";
+import { Queue, UnrecoverableError } from "bullmq";
+import type { Job } from "bullmq";
+import { env } from "@/env.mjs";
+import { logger } from "@/logger";
+import { WebhookSender } from "@/services/webhooks/service";
+import { WebhookDeliveryError } from "@/services/webhooks/exceptions";
+import { TargetValidationError } from "@/services/target-validation/exceptions";
+import type { WebhookEvent } from "@/services/webhooks/types";
+import type { WebhookJob } from "./types";
+import {
+  createWebhookDeliveries,
+  getScanFindings,
+  getWebhookDelivery,
+  getWebhookSubscriptions,
+  updateWebhookDelivery,
+} from "./db-operations";
+
+/** Attempts per delivery before it is given up */
+const DELIVERY_ATTEMPTS = 8;
+
+/** Delay before the first retry, doubled for each one after it */
+const RETRY_BASE_DELAY_MS = 30000;
+
+const webhookQueue = new Queue<WebhookJob>(env.WEBHOOK_QUEUE_NAME, {
+  connection: {
+    url: env.REDIS_URL,
+  },
+});
+
+const webhookSender = new WebhookSender();
+
+/**
+ * Queues an event for every project subscription to it. Never throws: a
+ * notification that cannot be queued must not fail the scan.
+ */
+export async function emitWebhookEvent(
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscriptions = await getWebhookSubscriptions(projectId, event);
+    if (subscriptions.length === 0) return;
+
+    const payload = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    const deliveries = await createWebhookDeliveries(
+      subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        event,
+        payload,
+      }))
+    );
+    await webhookQueue.addBulk(
+      deliveries.map((delivery) => ({
+        name: event,
+        data: { deliveryId: delivery.id },
+        opts: {
+          jobId: delivery.id,
+          attempts: DELIVERY_ATTEMPTS,
+          backoff: { type: "exponential", delay: RETRY_BASE_DELAY_MS },
+          removeOnComplete: { age: 3600, count: 1000 },
+          removeOnFail: { age: 86400, count: 1000 },
+        },
+      }))
+    );
+  } catch (error) {
+    logger.warn("Failed to queue webhook event", {
+      projectId,
+      event,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Queues a new_critical event for each critical finding of a scan that the
+ * previous scan did not have
+ */
+export async function emitNewCriticalFindings(
+  projectId: string,
+  scanId: string
+): Promise<void> {
+  let findings;
+  try {
+    findings = await getScanFindings(scanId);
+  } catch (error) {
+    logger.warn("Failed to load findings for webhook events", {
+      scanId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return;
+  }
+
+  const newCritical = findings.filter(
+    (finding) =>
+      finding.severity === "critical" &&
+      finding.diffStatus === "new" &&
+      !finding.suppressed
+  );
+  for (const finding of newCritical) {
+    await emitWebhookEvent(projectId, "finding.new_critical", {
+      scanId,
+      finding: {
+        id: finding.id,
+        name: finding.name,
+        engine: finding.engine,
+        pluginId: finding.pluginId,
+        severity: finding.severity,
+        riskScore: finding.riskScore,
+        cvssVector: finding.cvssVector,
+        cweIds: finding.cweIds,
+        cveId: finding.cveId,
+        url: finding.url,
+        instanceCount: finding.instanceCount,
+        fingerprint: finding.fingerprint,
+      },
+    });
+  }
+}
+
+/**
+ * Sends one attempt of a delivery and logs its outcome. Failed attempts
+ * throw, so the queue retries them with exponential backoff.
+ */
+export async function deliverWebhook(job: Job<WebhookJob>): Promise<void> {
+  const { deliveryId } = job.data;
+  const record = await getWebhookDelivery(deliveryId);
+  if (!record) {
+    logger.warn("Webhook delivery not found", { deliveryId });
+    return;
+  }
+
+  const { delivery, subscription } = record;
+  const attempts = job.attemptsMade + 1;
+  const lastAttemptAt = new Date();
+  if (!subscription.active) {
+    await updateWebhookDelivery(deliveryId, {
+      status: "failed",
+      attempts: delivery.attempts,
+      errorMessage: "Subscription is disabled",
+    });
+    return;
+  }
+
+  try {
+    const statusCode = await webhookSender.send({
+      url: subscription.url,
+      secret: subscription.secret,
+      event: delivery.event,
+      deliveryId,
+      body: JSON.stringify(delivery.payload),
+    });
+    await updateWebhookDelivery(deliveryId, {
+      status: "succeeded",
+      attempts,
+      statusCode,
+      errorMessage: null,
+      lastAttemptAt,
+      deliveredAt: new Date(),
+    });
+  } catch (error) {
+    // An endpoint on an internal network stays refused however often it is tried
+    const retryable = !(error instanceof TargetValidationError);
+    const exhausted = !retryable || attempts >= (job.opts.attempts ?? 1);
+    await updateWebhookDelivery(deliveryId, {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      statusCode:
+        error instanceof WebhookDeliveryError ? error.statusCode : null,
+      errorMessage: error instanceof Error ? error.message : "Unknown error",
+      lastAttemptAt,
+    });
+    logger.warn("Webhook delivery attempt failed", {
+      deliveryId,
+      subscriptionId: subscription.id,
+      event: delivery.event,
+      attempts,
+      exhausted,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    throw retryable || !(error instanceof Error)
+      ? error
+      : new UnrecoverableError(error.message);
+  }
+}
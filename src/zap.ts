@@ -0,0 +1,8 @@
+import { ZapPool } from "@/services/zap/pool";
+
+import { env } from "@/env.mjs";
+import { redis } from "@/redis";
+
+export const zapPool = new ZapPool(env.ZAP_INSTANCES ?? [{}], redis, {
+  maxLeasesPerInstance: env.ZAP_MAX_SCANS_PER_INSTANCE,
+});